@@ -1,6 +1,6 @@
 import React from 'react';
 import { div, h1, p, button, ul, li, span } from './src/htmlElements';
-import { asComponentFn, asComponentFnWithChildren } from './src/utils';
+import { asComponentFn } from './src/utils';
 import { DOMFC } from './src/types';
 
 // Example React component
@@ -29,8 +29,8 @@ const Container: React.FC<ContainerProps> = ({ className, children }) => {
 };
 
 // Create function-based versions of the components
-const myComponent = asComponentFn<MyComponentProps>(MyComponent);
-const container = asComponentFnWithChildren<{ className?: string }>(Container);
+const myComponent = asComponentFn(MyComponent);
+const container = asComponentFn(Container);
 
 type ExampleComponentProps = {
   title?: string;
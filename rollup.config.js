@@ -4,19 +4,43 @@ import commonjs from '@rollup/plugin-commonjs';
 import terser from '@rollup/plugin-terser';
 import dts from 'rollup-plugin-dts';
 
+// Entries that build elements, in one build so that they share the modules
+// holding global state, such as the plugins set with `configure` and the
+// development checks, instead of each bundling its own copy
+const entries = {
+  index: 'src/index.ts',
+  // Static HTML serializer
+  toHTML: 'src/toHTML.ts',
+  // Serializable element trees
+  data: 'src/data.ts',
+  // Tagged template markup
+  html: 'src/htmlTemplate.ts',
+  // Atomic CSS
+  css: 'src/css.ts',
+  // Schema-driven forms
+  form: 'src/formSchema.ts',
+};
+
 const config = [
-  // Main bundle
+  // Main bundle and the entry points kept out of it
   {
-    input: 'src/index.ts',
+    input: entries,
     output: [
       {
-        file: 'dist/index.js',
+        dir: 'dist',
         format: 'esm',
+        entryFileNames: '[name].js',
+        chunkFileNames: 'chunks/[name]-[hash].js',
         sourcemap: true,
       },
       {
-        file: 'dist/index.cjs',
+        dir: 'dist',
         format: 'cjs',
+        entryFileNames: '[name].cjs',
+        chunkFileNames: 'chunks/[name]-[hash].cjs',
+        // Shortens the names the entries import from the chunks, as the ESM
+        // output does by default
+        minifyInternalExports: true,
         sourcemap: true,
       },
     ],
@@ -32,10 +56,74 @@ const config = [
       terser({
         format: {
           comments: false,
+          // Keeps element functions tree-shakable in the shared chunks
+          preserve_annotations: true,
         },
       }),
     ],
   },
+  // HTML to element function converter
+  {
+    input: 'src/htmlToCode.ts',
+    output: [
+      {
+        file: 'dist/htmlToCode.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/htmlToCode.cjs',
+        format: 'cjs',
+        sourcemap: true,
+      },
+    ],
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      terser({
+        format: {
+          comments: false,
+        },
+      }),
+    ],
+  },
+  // JSX codemod command line tool
+  {
+    input: 'src/codemodCli.ts',
+    output: {
+      file: 'dist/codemod.js',
+      format: 'esm',
+      banner: '#!/usr/bin/env node',
+    },
+    external: ['typescript', 'node:fs', 'node:path'],
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+    ],
+  },
+  // HTML to element function converter command line tool
+  {
+    input: 'src/htmlToCodeCli.ts',
+    output: {
+      file: 'dist/fromHtml.js',
+      format: 'esm',
+      banner: '#!/usr/bin/env node',
+    },
+    external: ['node:fs'],
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+    ],
+  },
   // Type definitions
   {
     input: 'dist/index.d.ts',
@@ -44,4 +132,4 @@ const config = [
   },
 ];
 
-export default config; 
\ No newline at end of file
+export default config;
@@ -0,0 +1,52 @@
+// Checks the built entry points share the modules that hold global state:
+// plugins set with `configure` from the main entry must run for the elements
+// of every other entry point, in both the ESM and the CommonJS builds.
+//
+// Usage: npm run build && npm run check:entries
+
+import assert from 'node:assert/strict';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+const React = require('react');
+const { renderToStaticMarkup } = require('react-dom/server');
+
+const testIds = (props, type) =>
+  typeof type === 'string' ? { 'data-testid': type, ...props } : props;
+
+const check = (format, entry) => {
+  const { configure, div } = entry('index');
+  const { fromData } = entry('data');
+  const { formFromSchema } = entry('form');
+  const { html } = entry('html');
+
+  configure({ plugins: [testIds] });
+  const Form = () =>
+    formFromSchema([{ kind: 'text', name: 'name', label: 'Name' }], {
+      value: { name: '' },
+    });
+  const markup = renderToStaticMarkup(
+    div(
+      html`<aside>Note</aside>`,
+      fromData(['article', 'Post']),
+      React.createElement(Form)
+    )
+  );
+  configure({ plugins: [] });
+
+  for (const tag of ['div', 'aside', 'article', 'form']) {
+    assert.ok(
+      markup.includes(`<${tag} data-testid="${tag}"`),
+      `${format}: the plugins set with configure did not run for ${tag}`
+    );
+  }
+};
+
+const modules = {};
+for (const name of ['index', 'data', 'form', 'html']) {
+  modules[name] = await import(`../dist/${name}.js`);
+}
+check('ESM', (name) => modules[name]);
+check('CommonJS', (name) => require(`../dist/${name}.cjs`));
+
+console.log('Entry points share their global state.');
@@ -0,0 +1,128 @@
+// Regenerates the element exports in src/htmlElements.ts and the tag lists in
+// src/elementTags.ts and src/voidElements.ts from the spec table in
+// src/elementSpec.ts.
+//
+// Usage: npm run generate:elements [-- --check]
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const specPath = fileURLToPath(
+  new URL('../src/elementSpec.ts', import.meta.url)
+);
+
+// The spec module has no imports, so it can be transpiled and loaded as-is
+const loadSpec = async () => {
+  const { outputText } = ts.transpileModule(readFileSync(specPath, 'utf8'), {
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  const url = `data:text/javascript,${encodeURIComponent(outputText)}`;
+  return import(url);
+};
+
+const GENERATED_NOTICE = [
+  '// Generated from src/elementSpec.ts by `npm run generate:elements`.',
+  '// Do not edit by hand.',
+];
+
+const renderElements = ({ elementSpec, elementExportName }) => {
+  const lines = [...GENERATED_NOTICE];
+  let category;
+
+  for (const entry of elementSpec) {
+    if (entry.category !== category) {
+      category = entry.category;
+      lines.push('', `// ${category} elements`);
+    }
+    if (entry.deprecated) {
+      lines.push(`/** @deprecated ${entry.deprecated} */`);
+    }
+    const factory =
+      entry.namespace === 'svg' ? 'createSVGElement' : 'createElement';
+    // Marked pure so bundlers can drop the element functions an app never
+    // imports
+    lines.push(
+      `export const ${elementExportName(
+        entry
+      )} = /* @__PURE__ */ ${factory}('${entry.tag}');`
+    );
+  }
+
+  return lines.join('\n');
+};
+
+// Tag lists are kept out of the spec module so that the bundles using them,
+// such as the main bundle, which checks element nesting in development, do
+// not include the whole table
+const renderTagList =
+  (name, filter = () => true) =>
+  ({ elementSpec }) => {
+    const tags = elementSpec.filter(filter).map((entry) => `  '${entry.tag}',`);
+    return [
+      ...GENERATED_NOTICE,
+      `export const ${name} = [`,
+      ...tags,
+      '];',
+    ].join('\n');
+  };
+
+// Each target has a generated block between its markers
+const targets = [
+  {
+    file: 'htmlElements.ts',
+    marker: 'generated-elements',
+    render: renderElements,
+  },
+  {
+    file: 'elementTags.ts',
+    marker: 'generated-element-tags',
+    render: renderTagList('ELEMENT_TAGS'),
+  },
+  {
+    file: 'voidElements.ts',
+    marker: 'generated-void-elements',
+    render: renderTagList('VOID_ELEMENTS', (entry) => entry.void),
+  },
+];
+
+const spec = await loadSpec();
+let outdated = false;
+
+for (const { file, marker, render } of targets) {
+  const targetPath = fileURLToPath(new URL(`../src/${file}`, import.meta.url));
+  const startMarker = `// <${marker}>`;
+  const endMarker = `// </${marker}>`;
+  const source = readFileSync(targetPath, 'utf8');
+  const start = source.indexOf(startMarker);
+  const end = source.indexOf(endMarker);
+
+  if (start === -1 || end === -1) {
+    console.error(`Generated block markers not found in ${targetPath}`);
+    process.exit(1);
+  }
+
+  const output =
+    source.slice(0, start) +
+    [startMarker, render(spec), endMarker].join('\n') +
+    source.slice(end + endMarker.length);
+
+  if (output === source) {
+    continue;
+  }
+  if (process.argv.includes('--check')) {
+    console.error(
+      `src/${file} is out of date. Run \`npm run generate:elements\`.`
+    );
+    outdated = true;
+  } else {
+    writeFileSync(targetPath, output);
+  }
+}
+
+if (outdated) {
+  process.exit(1);
+}
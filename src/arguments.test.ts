@@ -0,0 +1,224 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { render } from '@testing-library/react';
+import { isPropsObject, normalizeProps, resolveArguments } from './arguments';
+import { button, div, fragment, li, object, span, ul } from './htmlElements';
+import { asComponentFn, createMemoizedElement, defineComponent } from './utils';
+
+type ReactElementWithProps = React.ReactElement<Record<string, unknown>>;
+
+describe('Argument handling', () => {
+  describe('isPropsObject', () => {
+    test('accepts plain objects', () => {
+      expect(isPropsObject({})).toBe(true);
+      expect(isPropsObject({ className: 'x' })).toBe(true);
+      expect(isPropsObject(Object.create(null))).toBe(true);
+    });
+
+    test('rejects React nodes and non-plain objects', () => {
+      class Model {
+        id = 1;
+      }
+      const portal = createPortal(span('In portal'), document.body);
+
+      expect(isPropsObject(span('x'))).toBe(false);
+      expect(isPropsObject(portal)).toBe(false);
+      expect(isPropsObject(['a'])).toBe(false);
+      expect(isPropsObject(new Set(['a']))).toBe(false);
+      expect(isPropsObject(new Map())).toBe(false);
+      expect(isPropsObject(Promise.resolve('a'))).toBe(false);
+      expect(isPropsObject(new Date())).toBe(false);
+      expect(isPropsObject(new Model())).toBe(false);
+      expect(isPropsObject('text')).toBe(false);
+      expect(isPropsObject(null)).toBe(false);
+    });
+  });
+
+  describe('resolveArguments', () => {
+    test('splits props from children', () => {
+      expect(resolveArguments({ id: 'a' }, ['x', 'y'])).toEqual([
+        { id: 'a' },
+        ['x', 'y'],
+      ]);
+    });
+
+    test('treats a non-props first argument as a child', () => {
+      const date = new Date(0);
+      expect(resolveArguments(date, ['x'])).toEqual([null, [date, 'x']]);
+    });
+
+    test('forces children-only when the first argument is null', () => {
+      expect(resolveArguments(null, ['x'])).toEqual([null, ['x']]);
+      expect(resolveArguments(undefined, [])).toEqual([null, []]);
+    });
+
+    test('collects iterables into arrays', () => {
+      function* letters() {
+        yield 'a';
+        yield 'b';
+      }
+
+      expect(resolveArguments(new Set(['a', 'b']), [])).toEqual([
+        null,
+        [['a', 'b']],
+      ]);
+      expect(resolveArguments(null, [letters()])).toEqual([null, [['a', 'b']]]);
+      expect(
+        resolveArguments(
+          new Map([
+            [1, 'a'],
+            [2, 'b'],
+          ]),
+          []
+        )
+      ).toEqual([null, [['a', 'b']]]);
+      expect(resolveArguments('text', [])).toEqual([null, ['text']]);
+    });
+  });
+
+  describe('normalizeProps', () => {
+    test('merges style arrays in order, skipping falsy entries', () => {
+      const active = false;
+      const props = normalizeProps(
+        {
+          style: [
+            { color: 'red', margin: 4 },
+            active && { color: 'blue' },
+            [null, { margin: 8, '--gap': 4 }],
+          ],
+          className: ['a', { b: true }],
+        },
+        'div'
+      );
+
+      expect(props).toEqual({
+        style: { color: 'red', margin: 8, '--gap': 4 },
+        className: 'a b',
+      });
+    });
+
+    test('returns props without a className or style array as-is', () => {
+      const props = { id: 'x', style: { color: 'red' } };
+      expect(normalizeProps(props, 'div')).toBe(props);
+      expect(normalizeProps(null, 'div')).toBeNull();
+    });
+
+    test('expands data and aria shorthands on DOM elements', () => {
+      const expanded = false;
+      const { getByRole } = render(
+        button(
+          {
+            data: { testid: 'menu', menuState: 'closed' },
+            aria: {
+              expanded,
+              haspopup: 'menu',
+              controls: ['menu-list', 'menu-footer'],
+            },
+            'data-testid': 'explicit',
+          },
+          'Menu'
+        )
+      );
+
+      const menu = getByRole('button');
+      expect(menu).toHaveAttribute('data-testid', 'explicit');
+      expect(menu).toHaveAttribute('data-menu-state', 'closed');
+      expect(menu).toHaveAttribute('aria-expanded', 'false');
+      expect(menu).toHaveAttribute('aria-haspopup', 'menu');
+      expect(menu).toHaveAttribute('aria-controls', 'menu-list menu-footer');
+      expect(menu).not.toHaveAttribute('data');
+      expect(menu).not.toHaveAttribute('aria');
+
+      // @ts-expect-error: not a WAI-ARIA attribute
+      button({ aria: { expandded: true } });
+    });
+
+    test('keeps the data attribute of object elements', () => {
+      const { container } = render(
+        object({ data: '/file.pdf', type: 'application/pdf' })
+      );
+
+      expect(container.firstChild).toHaveAttribute('data', '/file.pdf');
+
+      // @ts-expect-error: the data attribute of object is a URL
+      object({ data: { testid: 'pdf' } });
+    });
+
+    test('leaves data and aria props of components and custom elements alone', () => {
+      const data = { points: [1, 2] };
+      const chart = createMemoizedElement('x-chart')({
+        data,
+      }) as ReactElementWithProps;
+      const Chart = (props: { data: typeof data }) =>
+        span(props.data.points.join());
+
+      expect(chart.props.data).toBe(data);
+      expect(
+        (asComponentFn(Chart)({ data }) as ReactElementWithProps).props.data
+      ).toBe(data);
+    });
+  });
+
+  describe('factories', () => {
+    test('render iterables of children', () => {
+      const items = new Set([li({ key: 'a' }, 'A'), li({ key: 'b' }, 'B')]);
+      const { container } = render(ul(items));
+
+      expect(container.querySelectorAll('li')).toHaveLength(2);
+    });
+
+    test('treat a portal as a child', () => {
+      const target = document.createElement('div');
+      document.body.appendChild(target);
+      const { container } = render(
+        div(createPortal(span('In portal'), target))
+      );
+
+      expect(container.querySelector('span')).toBeNull();
+      expect(target).toHaveTextContent('In portal');
+      target.remove();
+    });
+
+    test('share the same rules across every factory', () => {
+      const Box = ({ children }: { children?: React.ReactNode }) =>
+        div({ className: 'box' }, children);
+      const factories = [
+        fragment,
+        createMemoizedElement('section'),
+        asComponentFn(Box),
+        defineComponent((_props, children) => div(...children)),
+      ];
+
+      factories.forEach((factory) => {
+        const { container, unmount } = render(
+          factory(new Set(['a', 'b']), 'c')
+        );
+        expect(container).toHaveTextContent('abc');
+        unmount();
+      });
+    });
+
+    test('merge style arrays for elements and wrapped components', () => {
+      const Badge = ({ style }: { style?: React.CSSProperties }) =>
+        span({ style }, 'New');
+      const badge = asComponentFn(Badge);
+      const base = { padding: 2, color: 'gray' };
+      const selected = true;
+
+      const { container } = render(
+        div(
+          { style: [base, selected && { color: 'black' }, { '--gap': 4 }] },
+          badge({ style: [base, { padding: 0 }] })
+        )
+      );
+
+      const box = container.firstChild as HTMLElement;
+      expect(box).toHaveStyle({ padding: '2px', color: 'black' });
+      expect(box.style.getPropertyValue('--gap')).toBe('4');
+      expect(container.querySelector('span')).toHaveStyle({
+        padding: '0px',
+        color: 'gray',
+      });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import React from 'react';
+import clsx from 'clsx';
+import { BINDABLE_TAGS, expandBinding } from './bind';
+import { pluginConfig } from './plugins';
+import type {
+  AnyComponent,
+  BaseElementProps,
+  StyleObject,
+  StyleValue,
+} from './types';
+
+// Shared argument handling for every element and component factory.
+//
+// Factories are called as `(props, ...children)` or `(...children)`. The first
+// argument counts as props only when it is a plain object: an object literal
+// or an `Object.create(null)` object that is not a React node. Everything else
+// is a child, including elements, portals, arrays, other iterables, promises
+// and class instances. Passing `null` (or `undefined`) as the first argument
+// forces children-only, whatever comes next.
+
+/**
+ * Checks whether a factory argument is a props object.
+ */
+export const isPropsObject = (
+  value: unknown
+): value is Record<string, unknown> => {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    (prototype === Object.prototype || prototype === null) &&
+    // Elements, portals and other React nodes are tagged with $$typeof
+    !('$$typeof' in value)
+  );
+};
+
+// Arrays and strings are handled by React as-is; other iterables (Sets,
+// generators, ...) are collected so React renders them as a list. Maps
+// iterate as [key, value] pairs, which are never renderable, so their values
+// are used.
+const toChild = (child: unknown): React.ReactNode => {
+  if (
+    child === null ||
+    typeof child !== 'object' ||
+    Array.isArray(child) ||
+    !(Symbol.iterator in child)
+  ) {
+    return child as React.ReactNode;
+  }
+  if (child instanceof Map) {
+    return Array.from(child.values());
+  }
+  return Array.from(child as Iterable<React.ReactNode>);
+};
+
+/**
+ * Splits factory arguments into props and children.
+ *
+ * @param propsOrChildren - The first argument passed to the factory
+ * @param children - The remaining arguments
+ * @returns The props (or `null`) and the children to pass to `React.createElement`
+ */
+export const resolveArguments = <Props extends object>(
+  propsOrChildren: unknown,
+  children: readonly unknown[]
+): [props: Props | null, children: React.ReactNode[]] => {
+  if (isPropsObject(propsOrChildren)) {
+    // First argument is props
+    return [propsOrChildren as Props, children.map(toChild)];
+  }
+  if (propsOrChildren === null || propsOrChildren === undefined) {
+    // No props, children only
+    return [null, children.map(toChild)];
+  }
+  // First argument is a child, no props
+  return [null, [propsOrChildren, ...children].map(toChild)];
+};
+
+// Merges a style array in order, skipping falsy entries
+const mergeStyles = (style: StyleValue, merged: Record<string, unknown>) => {
+  if (Array.isArray(style)) {
+    style.forEach((entry) => mergeStyles(entry, merged));
+  } else if (style) {
+    Object.assign(merged, style);
+  }
+  return merged;
+};
+
+// testId -> test-id
+const kebabCase = (name: string) =>
+  name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+// Expands the `data` and `aria` shorthands into attributes. Attributes
+// passed by their full name win. React writes booleans as "true"/"false".
+// A `data` prop that is not an object is the attribute of `<object>` and is
+// kept as-is.
+const expandShorthands = ({ aria, ...props }: BaseElementProps) => {
+  const attributes: BaseElementProps = {};
+  if (isPropsObject(props.data)) {
+    for (const [name, value] of Object.entries(props.data)) {
+      attributes[`data-${kebabCase(name)}`] = value;
+    }
+    delete props.data;
+  }
+  for (const [name, value] of Object.entries(aria ?? {})) {
+    attributes[`aria-${name}`] = Array.isArray(value) ? value.join(' ') : value;
+  }
+  return { ...attributes, ...props };
+};
+
+/**
+ * Resolves the props every factory handles before `React.createElement`:
+ * `className` goes through clsx, a `style` array is merged into one object,
+ * the `data` and `aria` shorthands of DOM elements and the `bind` prop of
+ * form fields are expanded, then the plugins run. Props that need none of this are returned as-is.
+ *
+ * Custom elements (tags with a `-`) and components keep `data` and `aria`
+ * props untouched, since they may define props of those names.
+ *
+ * @param props - The props returned by `resolveArguments`
+ * @param type - The tag or component, passed to the plugins
+ * @param plugins - The plugins to run; defaults to those set with `configure`
+ * @returns The props to pass to `React.createElement`
+ */
+export const normalizeProps = <Props extends BaseElementProps>(
+  props: Props | null,
+  type: string | AnyComponent,
+  plugins = pluginConfig.plugins
+): Props | null => {
+  let normalized: BaseElementProps | null = props;
+  const shorthands =
+    typeof type === 'string' &&
+    !type.includes('-') &&
+    (props?.data !== undefined || props?.aria !== undefined);
+  const binding =
+    props?.bind !== undefined && BINDABLE_TAGS.includes(type as string);
+  if (
+    props &&
+    (props.className !== undefined ||
+      Array.isArray(props.style) ||
+      shorthands ||
+      binding)
+  ) {
+    normalized = { ...props };
+    if (props.className !== undefined) {
+      normalized.className = clsx(props.className);
+    }
+    if (Array.isArray(props.style)) {
+      normalized.style = mergeStyles(props.style, {}) as StyleObject;
+    }
+    if (shorthands) {
+      normalized = expandShorthands(normalized);
+    }
+    if (binding) {
+      expandBinding(normalized, type as string);
+    }
+  }
+  if (plugins.length) {
+    normalized = plugins.reduce<Record<string, unknown>>(
+      (current, plugin) => plugin(current, type),
+      { ...normalized }
+    );
+  }
+  return normalized as Props | null;
+};
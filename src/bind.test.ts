@@ -0,0 +1,151 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { bindPath } from './bind';
+import { div, input, option, select, textarea } from './htmlElements';
+import { defineComponent } from './utils';
+
+describe('bind', () => {
+  test('binds text fields and still calls onChange', () => {
+    const onChange = jest.fn();
+    const Form = defineComponent(() => {
+      const name = React.useState('Ada');
+      const bio = React.useState('');
+      return div(
+        input({ 'aria-label': 'Name', bind: name, onChange }),
+        textarea({ 'aria-label': 'Bio', bind: bio }),
+        div({ role: 'status' }, `${name[0]}: ${bio[0]}`)
+      );
+    });
+    render(Form());
+
+    expect(screen.getByLabelText('Name')).toHaveValue('Ada');
+    fireEvent.change(screen.getByLabelText('Name'), {
+      target: { value: 'Grace' },
+    });
+    fireEvent.change(screen.getByLabelText('Bio'), {
+      target: { value: 'Compilers' },
+    });
+
+    expect(screen.getByRole('status')).toHaveTextContent('Grace: Compilers');
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  test('reads checkboxes, radio groups and numbers by type', () => {
+    let state = { subscribed: false, plan: 'free', seats: 1 };
+    const Form = defineComponent(() => {
+      const subscribed = React.useState(false);
+      const plan = React.useState('free');
+      const seats = React.useState(1);
+      state = { subscribed: subscribed[0], plan: plan[0], seats: seats[0] };
+      return div(
+        input({
+          type: 'checkbox',
+          'aria-label': 'Subscribe',
+          bind: subscribed,
+        }),
+        input({
+          type: 'radio',
+          value: 'free',
+          'aria-label': 'Free',
+          bind: plan,
+        }),
+        input({ type: 'radio', value: 'pro', 'aria-label': 'Pro', bind: plan }),
+        input({ type: 'number', 'aria-label': 'Seats', bind: seats })
+      );
+    });
+    render(Form());
+
+    expect(screen.getByLabelText('Free')).toBeChecked();
+    fireEvent.click(screen.getByLabelText('Subscribe'));
+    fireEvent.click(screen.getByLabelText('Pro'));
+    fireEvent.change(screen.getByLabelText('Seats'), {
+      target: { value: '12' },
+    });
+    expect(state).toEqual({ subscribed: true, plan: 'pro', seats: 12 });
+    expect(screen.getByLabelText('Free')).not.toBeChecked();
+
+    fireEvent.change(screen.getByLabelText('Seats'), { target: { value: '' } });
+    expect(state.seats).toBeNaN();
+    expect(screen.getByLabelText('Seats')).toHaveValue(null);
+  });
+
+  test('binds the selected values of multiple selects', () => {
+    let tags: string[] = [];
+    const Form = defineComponent(() => {
+      const binding = React.useState(['news']);
+      tags = binding[0];
+      return select(
+        { multiple: true, 'aria-label': 'Tags', bind: binding },
+        option({ value: 'news' }, 'News'),
+        option({ value: 'offers' }, 'Offers')
+      );
+    });
+    render(Form());
+
+    const offers = screen.getByRole('option', { name: 'Offers' });
+    (offers as HTMLOptionElement).selected = true;
+    fireEvent.change(screen.getByLabelText('Tags'));
+
+    expect(tags).toEqual(['news', 'offers']);
+  });
+
+  test('binds values inside state objects with bindPath', () => {
+    const initial = {
+      email: '',
+      address: { city: 'Paris', zip: '75001' },
+      contacts: [{ phone: '1' }, { phone: '2' }],
+    };
+    let form = initial;
+    const Form = defineComponent(() => {
+      const store = React.useState(initial);
+      form = store[0];
+      return div(
+        input({ 'aria-label': 'City', bind: bindPath(store, 'address.city') }),
+        input({
+          'aria-label': 'Phone',
+          bind: bindPath(store, 'contacts.1.phone'),
+        })
+      );
+    });
+    render(Form());
+
+    fireEvent.change(screen.getByLabelText('City'), {
+      target: { value: 'Lyon' },
+    });
+    fireEvent.change(screen.getByLabelText('Phone'), {
+      target: { value: '3' },
+    });
+
+    expect(form).toEqual({
+      email: '',
+      address: { city: 'Lyon', zip: '75001' },
+      contacts: [{ phone: '1' }, { phone: '3' }],
+    });
+    expect(form.contacts[0]).toBe(initial.contacts[0]);
+  });
+
+  test('types the binding by field type', () => {
+    const text: [string, (value: string) => void] = ['', () => {}];
+    const flag: [boolean, (value: boolean) => void] = [false, () => {}];
+    const store: [
+      { count: number },
+      React.Dispatch<React.SetStateAction<{ count: number }>>
+    ] = [{ count: 0 }, () => {}];
+
+    const checks = () => [
+      // @ts-expect-error: checkboxes bind booleans
+      input({ type: 'checkbox', bind: text }),
+      // @ts-expect-error: number inputs bind numbers
+      input({ type: 'number', bind: text }),
+      // @ts-expect-error: file inputs cannot be bound
+      input({ type: 'file', bind: text }),
+      // @ts-expect-error: multiple selects bind arrays
+      select({ multiple: true, bind: text }),
+      // @ts-expect-error: not a path of the state
+      bindPath(store, 'total'),
+      input({ type: 'checkbox', bind: flag }),
+      input({ type: 'number', bind: bindPath(store, 'count') }),
+    ];
+    expect(checks).toBeInstanceOf(Function);
+  });
+});
@@ -0,0 +1,135 @@
+import type React from 'react';
+import type { BaseElementProps, Binding } from './types';
+
+// Two-way binding for form fields
+//
+// The `bind` prop of `input`, `select` and `textarea` takes a
+// `[value, setValue]` tuple and expands into the controlled value prop and an
+// `onChange` handler that reads the field the way its type needs.
+
+// Objects `StatePath` does not look into
+type Opaque =
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown);
+
+/**
+ * The dotted paths into a state object, e.g. `'address.city'` or
+ * `'items.0.name'`.
+ */
+export type StatePath<State> = State extends Opaque
+  ? never
+  : State extends readonly (infer Item)[]
+  ? `${number}` | `${number}.${StatePath<Item>}`
+  : State extends object
+  ? {
+      [Key in keyof State & string]:
+        | Key
+        | (State[Key] extends object
+            ? `${Key}.${StatePath<State[Key]>}`
+            : never);
+    }[keyof State & string]
+  : never;
+
+type Field<State, Key extends string> = State extends readonly (infer Item)[]
+  ? Item
+  : Key extends keyof State
+  ? State[Key]
+  : never;
+
+/**
+ * The value at a dotted path into a state object.
+ */
+export type PathValue<
+  State,
+  Path extends string
+> = Path extends `${infer Key}.${infer Rest}`
+  ? PathValue<Field<State, Key>, Rest>
+  : Field<State, Path>;
+
+// Tags with a `bind` prop
+export const BINDABLE_TAGS = ['input', 'select', 'textarea'];
+
+type FieldElement = HTMLInputElement & HTMLSelectElement;
+
+/**
+ * Replaces the `bind` prop with the value prop and `onChange` handler for
+ * the field. An `onChange` prop still runs, after the value is set.
+ */
+export const expandBinding = (props: BaseElementProps, tag: string) => {
+  const [value, setValue] = props.bind as Binding<unknown>;
+  const { onChange } = props as {
+    onChange?: (event: React.ChangeEvent<FieldElement>) => void;
+  };
+  let read = (field: FieldElement): unknown => field.value;
+  delete props.bind;
+
+  // Only inputs have a `type`
+  if (props.type === 'checkbox') {
+    props.checked = value;
+    read = (field) => field.checked;
+  } else if (props.type === 'radio') {
+    // The bound value is the group's: the radio with that value is checked
+    props.checked = value === props.value;
+  } else if (props.type === 'number' || props.type === 'range') {
+    // An empty field reads as NaN, and NaN shows as an empty field
+    props.value = Number.isNaN(value) ? '' : value;
+    read = (field) => field.valueAsNumber;
+  } else {
+    props.value = value;
+    if (tag === 'select' && props.multiple) {
+      read = (field) =>
+        Array.from(field.selectedOptions, (option) => option.value);
+    }
+  }
+
+  props.onChange = (event: React.ChangeEvent<FieldElement>) => {
+    setValue(read(event.target));
+    onChange?.(event);
+  };
+};
+
+// Copies the containers along a path, with the value at its end
+const setIn = (target: unknown, [key, ...rest]: string[], value: unknown) => {
+  const copy = (
+    Array.isArray(target) ? [...target] : { ...(target as object) }
+  ) as Record<string, unknown>;
+  copy[key] = rest.length ? setIn(copy[key], rest, value) : value;
+  return copy;
+};
+
+/**
+ * Binds a form field to a value inside a `useState` object, for the `bind`
+ * prop. Setting the value copies the objects along the path, leaving the
+ * rest of the state as it was.
+ *
+ * @param store - The `[state, setState]` tuple returned by `useState`
+ * @param path - The dotted path to the value, e.g. `'address.city'`
+ * @returns A `[value, setValue]` tuple for the value at the path
+ *
+ * @example
+ * const form = React.useState({ email: '', address: { city: '' } });
+ *
+ * input({ type: 'email', bind: bindPath(form, 'email') });
+ * input({ bind: bindPath(form, 'address.city') });
+ */
+export const bindPath = <State extends object, Path extends StatePath<State>>(
+  store: readonly [
+    state: State,
+    setState: React.Dispatch<React.SetStateAction<State>>
+  ],
+  path: Path
+): Binding<PathValue<State, Path>> => {
+  const [state, setState] = store;
+  const keys = path.split('.');
+  const value = keys.reduce<unknown>(
+    (current, key) => (current as Record<string, unknown>)[key],
+    state
+  );
+  return [
+    value as PathValue<State, Path>,
+    (next) => setState((current) => setIn(current, keys, next) as State),
+  ];
+};
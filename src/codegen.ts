@@ -0,0 +1,166 @@
+import { elementExportName, elementSpec } from './elementSpec';
+
+// Shared helpers for the code generators: the JSX codemod and the HTML
+// converter both print element function calls the same way.
+
+export const LIBRARY = 'react-dom-functions';
+
+const MAX_LINE_LENGTH = 80;
+
+/**
+ * Export names of the element functions, by tag.
+ */
+export const exportNames = new Map(
+  elementSpec.map((entry) => [entry.tag, elementExportName(entry)])
+);
+
+/**
+ * Something a generator could not convert, with its 1-based position.
+ */
+export type CodeIssue = {
+  line: number;
+  column: number;
+  message: string;
+};
+
+/**
+ * A call argument; comments are kept in place without a separating comma.
+ */
+export type Argument = { text: string; comment?: boolean };
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  bull: '•',
+  copy: '©',
+  hellip: '…',
+  gt: '>',
+  laquo: '«',
+  ldquo: '“',
+  lsquo: '‘',
+  lt: '<',
+  mdash: '—',
+  middot: '·',
+  nbsp: '\u00a0',
+  ndash: '–',
+  quot: '"',
+  raquo: '»',
+  rdquo: '”',
+  reg: '®',
+  rsquo: '’',
+  times: '×',
+  trade: '™',
+};
+
+/**
+ * Decodes numeric and common named character references.
+ */
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      return String.fromCodePoint(
+        name[1].toLowerCase() === 'x'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10)
+      );
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Quotes a string, preferring single quotes like the rest of the codebase.
+ */
+export const quote = (text: string) => {
+  const mark = text.includes("'") && !text.includes('"') ? '"' : "'";
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(new RegExp(mark, 'g'), `\\${mark}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\u00a0/g, '\\u00a0');
+  return `${mark}${escaped}${mark}`;
+};
+
+/**
+ * Moves the continuation lines of multi-line code to a new indentation.
+ */
+export const reindent = (text: string, from: string, to: string) =>
+  text
+    .split('\n')
+    .map((line, index) =>
+      index > 0 && line.startsWith(from) ? to + line.slice(from.length) : line
+    )
+    .join('\n');
+
+/**
+ * An object literal key, quoted when it is not an identifier.
+ */
+export const propertyName = (name: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+
+/**
+ * Prints a call on one line when it fits, or one argument per line.
+ *
+ * @param indent - The indentation of the line the call starts on
+ */
+export const printCall = (callee: string, args: Argument[], indent: string) => {
+  const separated = args.map((arg, index) =>
+    arg.comment || index === args.length - 1 ? arg.text : `${arg.text},`
+  );
+  const inline = `${callee}(${separated.join(' ')})`;
+  if (
+    !args.some((arg) => arg.text.includes('\n') || arg.comment) &&
+    indent.length + inline.length <= MAX_LINE_LENGTH
+  ) {
+    return inline;
+  }
+  const inner = `${indent}  `;
+  if (args.length === 1 && !args[0].comment && args[0].text[0] === '{') {
+    // Hug a lone props object: callee({ ... })
+    return `${callee}(${reindent(args[0].text, inner, indent)})`;
+  }
+  return `${callee}(\n${separated
+    .map((arg) => `${inner}${arg}`)
+    .join('\n')}\n${indent})`;
+};
+
+/**
+ * Prints an object literal on one line when it fits, or one property per
+ * line. Returns an empty string when there are no properties.
+ *
+ * @param indent - The indentation of the line the object starts on
+ * @param prefix - The text before the object on that line, such as a key
+ */
+export const printObject = (
+  properties: string[],
+  indent: string,
+  prefix = ''
+) => {
+  if (properties.length === 0) {
+    return '';
+  }
+  const inline = `{ ${properties.join(', ')} }`;
+  if (
+    !inline.includes('\n') &&
+    indent.length + prefix.length + inline.length <= MAX_LINE_LENGTH
+  ) {
+    return inline;
+  }
+  return `{\n${properties
+    .map((property) => `${indent}  ${property},`)
+    .join('\n')}\n${indent}}`;
+};
+
+/**
+ * Prints a named import from the library, wrapped when it is too long.
+ *
+ * @param defaultImport - A default import to keep, if any
+ */
+export const printImport = (specifiers: string[], defaultImport?: string) => {
+  const prefix = defaultImport ? `import ${defaultImport}, ` : 'import ';
+  const inline = `${prefix}{ ${specifiers.join(', ')} } from '${LIBRARY}';`;
+  return inline.length <= MAX_LINE_LENGTH
+    ? inline
+    : `${prefix}{\n${specifiers
+        .map((specifier) => `  ${specifier},\n`)
+        .join('')}} from '${LIBRARY}';`;
+};
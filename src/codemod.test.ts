@@ -0,0 +1,166 @@
+import { transformJSX } from './codemod';
+
+const convert = (source: string, options = {}) =>
+  transformJSX(source, 'Screen.tsx', options);
+
+describe('JSX codemod', () => {
+  test('converts elements, props and text', () => {
+    const { code, issues } = convert(
+      `const a = <p className="intro" hidden aria-label="Hi &amp; bye">Hello {name}</p>;\n`
+    );
+
+    expect(code).toBe(
+      [
+        "import { p } from 'react-dom-functions';",
+        'const a = p(',
+        "  { className: 'intro', hidden: true, 'aria-label': 'Hi & bye' },",
+        "  'Hello ',",
+        '  name',
+        ');',
+        '',
+      ].join('\n')
+    );
+    expect(issues).toEqual([]);
+  });
+
+  test('collapses JSX whitespace and keeps comments', () => {
+    const { code } = convert(
+      [
+        'const a = (',
+        '  <div>',
+        '    {/* greeting */}',
+        '    <span>',
+        "      It's a",
+        '      long line',
+        '    </span>',
+        '  </div>',
+        ');',
+      ].join('\n')
+    );
+
+    expect(code).toContain(
+      [
+        '  div(',
+        '    /* greeting */',
+        '    span("It\'s a long line")',
+        '  )',
+      ].join('\n')
+    );
+  });
+
+  test('converts fragments and renamed elements', () => {
+    const { code } = convert(
+      'const a = <><var>x</var><React.Fragment key="k">y</React.Fragment></>;'
+    );
+
+    expect(code).toContain(
+      "const a = fragment(var_('x'), fragment({ key: 'k' }, 'y'));"
+    );
+    expect(code).toContain(
+      "import { fragment, var_ } from 'react-dom-functions';"
+    );
+  });
+
+  test('wraps components with asComponentFn or calls them directly', () => {
+    const source = 'const a = <Card title="A" {...rest}><Icon /></Card>;';
+
+    expect(convert(source).code).toContain(
+      "asComponentFn(Card)({ title: 'A', ...rest }, asComponentFn(Icon)())"
+    );
+    expect(convert(source, { components: 'call' }).code).toContain(
+      "const a = Card({ title: 'A', ...rest }, Icon());"
+    );
+  });
+
+  test('converts JSX nested in expressions', () => {
+    const { code } = convert(
+      [
+        'const list = (',
+        '  <ul>',
+        '    {items.map((item) => (',
+        '      <li key={item.id} onClick={() => select(item)}>{item.name}</li>',
+        '    ))}',
+        '  </ul>',
+        ');',
+      ].join('\n')
+    );
+
+    expect(code).toContain(
+      [
+        '  ul(',
+        '    items.map((item) => (',
+        '      li({ key: item.id, onClick: () => select(item) }, item.name)',
+        '    ))',
+        '  )',
+      ].join('\n')
+    );
+  });
+
+  test('keeps the code around the JSX untouched', () => {
+    const source = [
+      "import React from 'react';",
+      '',
+      '// Renders the title',
+      'export function Title({ text }: { text: string }) {',
+      '  const   spaced = 1; // odd spacing stays',
+      '  return <h1>{text}</h1>;',
+      '}',
+      '',
+    ].join('\n');
+
+    expect(convert(source).code).toBe(
+      source
+        .replace(
+          "import React from 'react';",
+          "import React from 'react';\nimport { h1 } from 'react-dom-functions';"
+        )
+        .replace('<h1>{text}</h1>', 'h1(text)')
+    );
+  });
+
+  test('merges into an existing import and avoids shadowed names', () => {
+    const { code } = convert(
+      [
+        "import { div } from 'react-dom-functions';",
+        'const label = "Name";',
+        'const a = <div><label>{label}</label></div>;',
+      ].join('\n')
+    );
+
+    expect(code).toContain(
+      "import { div, label as label_ } from 'react-dom-functions';"
+    );
+    expect(code).toContain('const a = div(label_(label));');
+  });
+
+  test('reports constructs it cannot convert and leaves them as JSX', () => {
+    const { code, issues } = convert(
+      'const a = <section>\n  <my-widget />\n  <svg:rect />\n</section>;'
+    );
+
+    expect(code).toContain('section(<my-widget />, <svg:rect />)');
+    expect(issues).toEqual([
+      {
+        line: 2,
+        column: 3,
+        message:
+          "<my-widget> has no element function; create one with createMemoizedElement('my-widget').",
+      },
+      {
+        line: 3,
+        column: 3,
+        message: 'Namespaced element <svg:rect> cannot be converted.',
+      },
+    ]);
+  });
+
+  test('leaves files without JSX unchanged', () => {
+    const source = 'export const sum = (a: number, b: number) => a + b;\n';
+
+    expect(convert(source)).toEqual({
+      code: source,
+      changed: false,
+      issues: [],
+    });
+  });
+});
@@ -0,0 +1,414 @@
+import ts from 'typescript';
+import {
+  type Argument,
+  type CodeIssue,
+  LIBRARY,
+  decodeEntities,
+  exportNames,
+  printCall,
+  printImport,
+  printObject,
+  propertyName,
+  quote,
+  reindent,
+} from './codegen';
+
+// JSX to element function codemod
+//
+// Rewrites JSX in place: only the JSX itself is replaced, so the code around
+// it keeps its formatting and comments. Converted elements are laid out
+// one argument per line when they do not fit on a line; running a formatter
+// afterwards is still a good idea.
+
+export type CodemodOptions = {
+  /**
+   * How to call components: wrap them with `asComponentFn` (the default), or
+   * call them directly, for components made with `defineComponent` or
+   * `asComponentFn` already.
+   */
+  components?: 'wrap' | 'call';
+};
+
+export type CodemodResult = {
+  code: string;
+  /** Whether any JSX was converted */
+  changed: boolean;
+  /** Constructs left as they were */
+  issues: CodeIssue[];
+};
+
+type Edit = { start: number; end: number; text: string };
+
+// JSX text collapses whitespace around line breaks and drops blank lines
+const cleanJsxText = (text: string) =>
+  text
+    .split(/\r\n|\n|\r/)
+    .map((line, index, lines) => {
+      let cleaned = line.replace(/\t/g, ' ');
+      if (index > 0) {
+        cleaned = cleaned.trimStart();
+      }
+      if (index < lines.length - 1) {
+        cleaned = cleaned.trimEnd();
+      }
+      return cleaned;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+const isJsx = (
+  node: ts.Node
+): node is ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment =>
+  ts.isJsxElement(node) ||
+  ts.isJsxSelfClosingElement(node) ||
+  ts.isJsxFragment(node);
+
+// Names the file declares, which element function imports must not shadow
+const declaredNames = (sourceFile: ts.SourceFile) => {
+  const names = new Set<string>();
+  const visit = (node: ts.Node) => {
+    if (
+      (ts.isVariableDeclaration(node) ||
+        ts.isParameter(node) ||
+        ts.isBindingElement(node) ||
+        ts.isFunctionDeclaration(node) ||
+        ts.isClassDeclaration(node) ||
+        ts.isImportSpecifier(node) ||
+        ts.isImportClause(node) ||
+        ts.isNamespaceImport(node)) &&
+      node.name &&
+      ts.isIdentifier(node.name)
+    ) {
+      const importDeclaration = ts.findAncestor(node, ts.isImportDeclaration);
+      if (
+        !importDeclaration ||
+        (importDeclaration.moduleSpecifier as ts.StringLiteral).text !== LIBRARY
+      ) {
+        names.add(node.name.text);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return names;
+};
+
+/**
+ * Rewrites the JSX in a source file into element function calls and adds
+ * the imports they need.
+ *
+ * @param source - The source text
+ * @param fileName - The file name, used to parse the file and in issues
+ * @param options - How to convert components
+ * @returns The new source text and the constructs that were not converted
+ *
+ * @example
+ * transformJSX('const a = <p className="x">Hi</p>;', 'a.tsx').code;
+ * // "import { p } from 'react-dom-functions';\nconst a = p({ className: 'x' }, 'Hi');"
+ */
+export const transformJSX = (
+  source: string,
+  fileName = 'file.tsx',
+  options: CodemodOptions = {}
+): CodemodResult => {
+  const { components = 'wrap' } = options;
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    fileName.endsWith('.jsx') || fileName.endsWith('.js')
+      ? ts.ScriptKind.JSX
+      : ts.ScriptKind.TSX
+  );
+  const issues: CodeIssue[] = [];
+  const imports = new Set<string>();
+  const shadowed = declaredNames(sourceFile);
+
+  const report = (node: ts.Node, message: string) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile)
+    );
+    issues.push({ line: line + 1, column: character + 1, message });
+  };
+
+  const importName = (name: string) => {
+    imports.add(name);
+    return shadowed.has(name) ? `${name}_` : name;
+  };
+
+  const indentAt = (position: number) => {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(position);
+    const lineStart = sourceFile.getLineStarts()[line];
+    return /^[ \t]*/.exec(source.slice(lineStart))?.[0] ?? '';
+  };
+
+  // Source text of a range with the outermost JSX inside it converted
+  const rewrite = (node: ts.Node, start: number, end: number) => {
+    let text = '';
+    let position = start;
+    const visit = (child: ts.Node) => {
+      if (child.end <= start || child.getStart(sourceFile) >= end) {
+        return;
+      }
+      if (isJsx(child)) {
+        const converted = convert(child, indentAt(child.getStart(sourceFile)));
+        if (converted !== undefined) {
+          text += source.slice(position, child.getStart(sourceFile));
+          text += converted;
+          position = child.end;
+        }
+        return;
+      }
+      ts.forEachChild(child, visit);
+    };
+    ts.forEachChild(node, visit);
+    return text + source.slice(position, end);
+  };
+
+  const printProps = (
+    attributes: ts.JsxAttributes,
+    indent: string
+  ): string | undefined => {
+    const properties: string[] = [];
+    for (const attribute of attributes.properties) {
+      if (ts.isJsxSpreadAttribute(attribute)) {
+        properties.push(
+          `...${rewrite(
+            attribute.expression,
+            attribute.expression.getStart(sourceFile),
+            attribute.expression.end
+          )}`
+        );
+        continue;
+      }
+      if (!ts.isIdentifier(attribute.name)) {
+        report(
+          attribute,
+          `Namespaced attribute "${attribute.name.getText(
+            sourceFile
+          )}" cannot be converted; use the React prop name instead.`
+        );
+        return undefined;
+      }
+
+      const name = propertyName(attribute.name.text);
+      const { initializer } = attribute;
+      if (!initializer) {
+        properties.push(`${name}: true`);
+      } else if (ts.isStringLiteral(initializer)) {
+        properties.push(`${name}: ${quote(decodeEntities(initializer.text))}`);
+      } else if (ts.isJsxExpression(initializer)) {
+        const value = initializer.expression
+          ? reindent(
+              rewrite(
+                initializer,
+                initializer.getStart(sourceFile) + 1,
+                initializer.end - 1
+              ).trim(),
+              indentAt(attribute.getStart(sourceFile)),
+              `${indent}  `
+            )
+          : 'undefined';
+        properties.push(
+          name === value && /^[A-Za-z_$][\w$]*$/.test(value)
+            ? name
+            : `${name}: ${value}`
+        );
+      } else {
+        const value = convert(initializer, `${indent}  `);
+        if (value === undefined) {
+          return undefined;
+        }
+        properties.push(`${name}: ${value}`);
+      }
+    }
+
+    return printObject(properties, indent);
+  };
+
+  const printChildren = (
+    children: ts.NodeArray<ts.JsxChild>,
+    indent: string
+  ) => {
+    const args: Argument[] = [];
+    for (const child of children) {
+      if (ts.isJsxText(child)) {
+        const text = cleanJsxText(child.text);
+        if (text) {
+          args.push({ text: quote(decodeEntities(text)) });
+        }
+      } else if (ts.isJsxExpression(child)) {
+        const inner = reindent(
+          rewrite(child, child.getStart(sourceFile) + 1, child.end - 1).trim(),
+          indentAt(child.getStart(sourceFile)),
+          indent
+        );
+        if (!child.expression) {
+          // Comments such as {/* note */}
+          if (inner) {
+            args.push({ text: inner, comment: true });
+          }
+        } else {
+          args.push({ text: inner });
+        }
+      } else {
+        const converted = convert(child, indent);
+        args.push({ text: converted ?? child.getText(sourceFile) });
+      }
+    }
+    return args;
+  };
+
+  const calleeFor = (
+    tagName: ts.JsxTagNameExpression,
+    typeArguments: ts.NodeArray<ts.TypeNode> | undefined
+  ): string | undefined => {
+    const tag = tagName.getText(sourceFile);
+    // Checked by text: ts.isJsxNamespacedName needs TypeScript 5.1
+    if (tag.includes(':')) {
+      report(
+        tagName.parent,
+        `Namespaced element <${tag}> cannot be converted.`
+      );
+      return undefined;
+    }
+    if (tag === 'Fragment' || tag === 'React.Fragment') {
+      return importName('fragment');
+    }
+    if (ts.isIdentifier(tagName) && /^[a-z]/.test(tag)) {
+      const name = exportNames.get(tag);
+      if (!name) {
+        report(
+          tagName.parent,
+          `<${tag}> has no element function; create one with createMemoizedElement('${tag}').`
+        );
+        return undefined;
+      }
+      return importName(name);
+    }
+    const component = typeArguments
+      ? `${tag}<${typeArguments
+          .map((type) => type.getText(sourceFile))
+          .join(', ')}>`
+      : tag;
+    return components === 'call'
+      ? component
+      : `${importName('asComponentFn')}(${component})`;
+  };
+
+  const convert = (
+    node: ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment,
+    indent: string
+  ): string | undefined => {
+    const childIndent = `${indent}  `;
+    if (ts.isJsxFragment(node)) {
+      return printCall(
+        importName('fragment'),
+        printChildren(node.children, childIndent),
+        indent
+      );
+    }
+
+    const opening = ts.isJsxElement(node) ? node.openingElement : node;
+    const callee = calleeFor(opening.tagName, opening.typeArguments);
+    const props =
+      callee === undefined
+        ? undefined
+        : printProps(opening.attributes, childIndent);
+    if (callee === undefined || props === undefined) {
+      return undefined;
+    }
+
+    const children = ts.isJsxElement(node)
+      ? printChildren(node.children, childIndent)
+      : [];
+    // Children are never plain objects, so they cannot be mistaken for props
+    return printCall(
+      callee,
+      props ? [{ text: props }, ...children] : children,
+      indent
+    );
+  };
+
+  const edits: Edit[] = [];
+  const visit = (node: ts.Node) => {
+    if (isJsx(node)) {
+      const start = node.getStart(sourceFile);
+      const converted = convert(node, indentAt(start));
+      if (converted !== undefined) {
+        edits.push({ start, end: node.end, text: converted });
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (imports.size > 0) {
+    const existing = sourceFile.statements.find(
+      (statement): statement is ts.ImportDeclaration =>
+        ts.isImportDeclaration(statement) &&
+        (statement.moduleSpecifier as ts.StringLiteral).text === LIBRARY &&
+        !statement.importClause?.isTypeOnly &&
+        (!statement.importClause?.namedBindings ||
+          ts.isNamedImports(statement.importClause.namedBindings))
+    );
+    const namedImports = existing?.importClause?.namedBindings as
+      | ts.NamedImports
+      | undefined;
+    const present = new Set(
+      namedImports?.elements.map(
+        (element) => (element.propertyName ?? element.name).text
+      )
+    );
+    const specifiers = [
+      ...(namedImports?.elements.map((element) =>
+        element.getText(sourceFile)
+      ) ?? []),
+      ...Array.from(imports)
+        .filter((name) => !present.has(name))
+        .sort()
+        .map((name) => (shadowed.has(name) ? `${name} as ${name}_` : name)),
+    ];
+    const declaration = printImport(
+      specifiers,
+      existing?.importClause?.name?.text
+    );
+
+    if (existing) {
+      edits.push({
+        start: existing.getStart(sourceFile),
+        end: existing.end,
+        text: declaration,
+      });
+    } else {
+      const lastImport = sourceFile.statements
+        .filter(ts.isImportDeclaration)
+        .pop();
+      edits.push(
+        lastImport
+          ? {
+              start: lastImport.end,
+              end: lastImport.end,
+              text: `\n${declaration}`,
+            }
+          : { start: 0, end: 0, text: `${declaration}\n` }
+      );
+    }
+  }
+
+  const code = edits
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, edit) =>
+        text.slice(0, edit.start) + edit.text + text.slice(edit.end),
+      source
+    );
+
+  return {
+    code,
+    changed: edits.length > 0,
+    issues,
+  };
+};
@@ -0,0 +1,81 @@
+// Command line entry for the JSX codemod, shipped as the
+// `react-dom-functions-codemod` binary.
+//
+// Usage: react-dom-functions-codemod [--dry-run] [--components=wrap|call] <paths...>
+
+import { readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { transformJSX, type CodemodOptions } from './codemod';
+
+const USAGE =
+  'Usage: react-dom-functions-codemod [--dry-run] [--components=wrap|call] <files or directories...>';
+
+const SOURCE_EXTENSIONS = ['.tsx', '.jsx'];
+
+// Source files under the given paths, skipping dependencies and dot folders
+const collectFiles = (target: string, files: string[] = []) => {
+  if (statSync(target).isDirectory()) {
+    readdirSync(target)
+      .filter((entry) => entry !== 'node_modules' && !entry.startsWith('.'))
+      .forEach((entry) => collectFiles(path.join(target, entry), files));
+  } else if (SOURCE_EXTENSIONS.includes(path.extname(target))) {
+    files.push(target);
+  }
+  return files;
+};
+
+const run = (args: string[]) => {
+  const options: CodemodOptions = {};
+  let dryRun = false;
+  const targets: string[] = [];
+
+  for (const arg of args) {
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--components=wrap' || arg === '--components=call') {
+      options.components = arg === '--components=call' ? 'call' : 'wrap';
+    } else if (arg === '--help') {
+      console.log(USAGE);
+      return 0;
+    } else if (arg.startsWith('--')) {
+      console.error(`Unknown option ${arg}\n${USAGE}`);
+      return 1;
+    } else {
+      targets.push(arg);
+    }
+  }
+  if (targets.length === 0) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  let converted = 0;
+  let issueCount = 0;
+  for (const file of targets.flatMap((target) => collectFiles(target))) {
+    const source = readFileSync(file, 'utf8');
+    const { code, changed, issues } = transformJSX(source, file, options);
+
+    issues.forEach(({ line, column, message }) => {
+      console.warn(`${file}:${line}:${column} ${message}`);
+    });
+    issueCount += issues.length;
+    if (!changed) {
+      continue;
+    }
+    converted++;
+    if (dryRun) {
+      console.log(`--- ${file}\n${code}`);
+    } else {
+      writeFileSync(file, code);
+    }
+  }
+
+  console.log(
+    `${
+      dryRun ? 'Would convert' : 'Converted'
+    } ${converted} file(s); ${issueCount} construct(s) left as JSX.`
+  );
+  return 0;
+};
+
+process.exitCode = run(process.argv.slice(2));
@@ -0,0 +1,156 @@
+import { render } from '@testing-library/react';
+import { createTheme, css, getCssText, STYLE_ELEMENT_ID } from './css';
+import { div } from './htmlElements';
+import { toHTML } from './toHTML';
+
+const sheetRules = () =>
+  Array.from(
+    (document.getElementById(STYLE_ELEMENT_ID) as HTMLStyleElement).sheet!
+      .cssRules,
+    (rule) => rule.cssText
+  );
+
+describe('css', () => {
+  test('creates one class per declaration and reuses equal ones', () => {
+    const card = css({ padding: 8, color: 'red', lineHeight: 1.5 });
+    const notice = css({ color: 'red', '--gap': 4 });
+    const [padding, color, lineHeight] = card.split(' ');
+
+    expect(card).toMatch(/^x[\da-z]+ x[\da-z]+ x[\da-z]+$/);
+    expect(notice.split(' ')[0]).toBe(color);
+    expect(getCssText()).toContain(`.${padding}{padding:8px}`);
+    expect(getCssText()).toContain(`.${lineHeight}{line-height:1.5}`);
+    expect(getCssText()).toContain('{--gap:4}');
+    expect(sheetRules()).toContain(`.${color} {color: red;}`);
+  });
+
+  test('supports pseudo-classes and media queries, ordered after base rules', () => {
+    const media = css({
+      '@media (min-width: 640px)': {
+        fontSize: 18,
+        ':hover': { fontSize: 20 },
+      },
+    });
+    const base = css({ fontSize: 16, ':focus-visible': { outline: 'none' } });
+    const [wide, wideHover] = media.split(' ');
+    const [small, focus] = base.split(' ');
+
+    expect(getCssText()).toContain(
+      `@media (min-width: 640px){.${wide}{font-size:18px}}`
+    );
+    expect(getCssText()).toContain(
+      `@media (min-width: 640px){.${wideHover}:hover{font-size:20px}}`
+    );
+    expect(getCssText()).toContain(`.${focus}:focus-visible{outline:none}`);
+
+    const rules = sheetRules();
+    const position = (name: string) =>
+      rules.findIndex((rule) => rule.includes(`.${name}`));
+    expect(position(small)).toBeLessThan(position(focus));
+    expect(position(focus)).toBeLessThan(position(wide));
+  });
+
+  test('merges style objects and plugs into clsx class names', () => {
+    const active = true;
+    const classes = css(
+      { color: 'blue', margin: 0 },
+      false,
+      active && { color: 'green' }
+    );
+
+    expect(classes.split(' ')).toHaveLength(2);
+    expect(getCssText()).not.toContain('color:blue');
+
+    const { container } = render(
+      div({ className: ['card', classes, { active }] })
+    );
+    expect((container.firstChild as HTMLElement).className).toBe(
+      `card ${classes} active`
+    );
+  });
+
+  test('defines theme tokens as CSS variables', () => {
+    const theme = createTheme({
+      colors: { text: '#111', 'accent-strong': '#06c' },
+      space: { 2: '8px' },
+    });
+    createTheme({ colors: { text: '#eee' } }, '.dark');
+
+    expect(theme).toEqual({
+      colors: {
+        text: 'var(--colors-text)',
+        'accent-strong': 'var(--colors-accent-strong)',
+      },
+      space: { 2: 'var(--space-2)' },
+    });
+    expect(getCssText()).toMatch(
+      /^:root\{--colors-text:#111;--colors-accent-strong:#06c;--space-2:8px\}\.dark\{--colors-text:#eee\}/
+    );
+
+    css({ color: theme.colors.text });
+    expect(getCssText()).toContain('{color:var(--colors-text)}');
+  });
+
+  test('collects the rules of each server render separately', () => {
+    jest.isolateModules(() => {
+      const documentSpy = jest
+        .spyOn(globalThis, 'document', 'get')
+        .mockReturnValue(undefined as unknown as Document);
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const server: typeof import('./css') = require('./css');
+        const theme = server.createTheme({ text: '#111' });
+        const shared = server.css({ color: theme.text });
+
+        const first = server.collectCss(() =>
+          toHTML(div({ className: [shared, server.css({ width: 120 })] }))
+        );
+        const second = server.collectCss(() =>
+          toHTML(div({ className: server.css({ width: 240 }) }))
+        );
+
+        expect(first.result).toContain(shared);
+        expect(first.cssText).toMatch(/^:root\{--text:#111\}/);
+        expect(first.cssText).toContain('{color:var(--text)}');
+        expect(first.cssText).toContain('{width:120px}');
+        expect(second.cssText).toContain('{color:var(--text)}');
+        expect(second.cssText).toContain('{width:240px}');
+        expect(second.cssText).not.toContain('{width:120px}');
+        expect(server.getCssText()).not.toContain('width');
+
+        const quoted = server.collectCss(() =>
+          server.css({ content: '"</style><script>"' })
+        );
+        expect(quoted.cssText).toContain(
+          '{content:"\\3c /style>\\3c script>"}'
+        );
+        expect(quoted.cssText).not.toContain('<');
+      } finally {
+        documentSpy.mockRestore();
+      }
+    });
+  });
+
+  test('reuses server-rendered rules in the browser', () => {
+    const red = css({ color: 'red' });
+    const themeRule = ':root{--accent:#06c}';
+
+    jest.isolateModules(() => {
+      document.getElementById(STYLE_ELEMENT_ID)?.remove();
+      const element = document.createElement('style');
+      element.id = STYLE_ELEMENT_ID;
+      element.textContent = `${themeRule}.${red}{color:red}`;
+      document.head.appendChild(element);
+
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const fresh: typeof import('./css') = require('./css');
+      expect(fresh.css({ color: 'red' })).toBe(red);
+      fresh.createTheme({ accent: '#06c' });
+      fresh.css({ color: 'purple' });
+
+      expect(document.querySelectorAll(`#${STYLE_ELEMENT_ID}`)).toHaveLength(1);
+      expect(element.sheet!.cssRules).toHaveLength(3);
+      expect(fresh.getCssText()).toContain(`${themeRule}.${red}{color:red}`);
+    });
+  });
+});
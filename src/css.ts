@@ -0,0 +1,320 @@
+import type React from 'react';
+import { cssDeclaration } from './cssDeclaration';
+import { warnOnce } from './dev';
+
+// Atomic CSS
+//
+// `css()` turns each declaration of a style object into its own class, named
+// after a hash of the declaration and its pseudo-classes and media queries,
+// so equal declarations share a class across the app. Rules are inserted
+// into one managed stylesheet in the browser, and collected for server
+// rendering everywhere. On the server, `collectCss` keeps the rules a render
+// creates to that render, so styles computed per request do not pile up.
+
+/**
+ * A style object for `css()`: React style properties, custom properties,
+ * and nested objects for pseudo-classes and media queries.
+ */
+export type CSSStyles = React.CSSProperties & {
+  [property: `--${string}`]: string | number | undefined;
+  [pseudo: `:${string}`]: CSSStyles | undefined;
+  [media: `@media ${string}`]: CSSStyles | undefined;
+};
+
+/**
+ * Design tokens for `createTheme`, nested by group.
+ */
+export type ThemeTokens = { [name: string]: string | number | ThemeTokens };
+
+/**
+ * The CSS variable references of a theme, in the shape of its tokens.
+ */
+export type ThemeVars<Tokens extends ThemeTokens> = {
+  [Name in keyof Tokens]: Tokens[Name] extends ThemeTokens
+    ? ThemeVars<Tokens[Name]>
+    : string;
+};
+
+/**
+ * The id of the managed stylesheet. Server-rendered styles in a `style`
+ * element with this id are reused in the browser.
+ */
+export const STYLE_ELEMENT_ID = 'react-dom-functions-css';
+
+// Rule groups, in stylesheet order: later groups override earlier ones at
+// equal specificity
+const GROUPS = ['theme', 'base', 'pseudo', 'media'] as const;
+
+type Group = (typeof GROUPS)[number];
+
+type Rule = { group: Group; text: string };
+
+// Every rule generated so far outside server collections, by key
+const rules = new Map<string, Rule>();
+// Rules created by the server render collectCss is running
+let collected: Map<string, Rule> | undefined;
+// Rules per group in the managed stylesheet, to insert rules in group order
+const groupSizes: Record<Group, number> = {
+  theme: 0,
+  base: 0,
+  pseudo: 0,
+  media: 0,
+};
+// Keys of server-rendered rules already in the page
+const hydrated = new Set<string>();
+
+// FNV-1a, in base 36
+const hash = (text: string) => {
+  let value = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    value ^= text.charCodeAt(index);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(36);
+};
+
+const themeKey = (text: string) => `theme-${hash(text)}`;
+
+// Rules go inside a style element, which any `</style` would end early
+const escapeText = (text: string) => text.replace(/</g, '\\3c ');
+
+const unescapeText = (text: string) => text.replace(/\\3c /g, '<');
+
+const ruleGroup = (rule: CSSRule): Group => {
+  if (!('selectorText' in rule)) {
+    return 'media';
+  }
+  const selector = String(rule.selectorText);
+  if (!selector.startsWith('.x')) {
+    return 'theme';
+  }
+  return selector.includes(':') ? 'pseudo' : 'base';
+};
+
+let sheet: CSSStyleSheet | null | undefined;
+
+const managedSheet = () => {
+  if (sheet !== undefined) {
+    return sheet;
+  }
+  if (typeof document === 'undefined') {
+    return (sheet = null);
+  }
+  let element = document.getElementById(
+    STYLE_ELEMENT_ID
+  ) as HTMLStyleElement | null;
+  if (element) {
+    // Server-rendered rules, in group order already
+    for (const rule of Array.from(element.sheet?.cssRules ?? [])) {
+      groupSizes[ruleGroup(rule)]++;
+    }
+    const text = element.textContent ?? '';
+    for (const [, name] of text.matchAll(/\.(x[\da-z]+)/g)) {
+      hydrated.add(name);
+    }
+    // Theme rules come first and have no nested blocks; their keys are
+    // hashes of their text
+    Array.from(text.matchAll(/[^{}]+\{[^{}]*\}/g))
+      .slice(0, groupSizes.theme)
+      .forEach(([rule]) => hydrated.add(themeKey(unescapeText(rule))));
+  } else {
+    element = document.createElement('style');
+    element.id = STYLE_ELEMENT_ID;
+    document.head.appendChild(element);
+  }
+  return (sheet = element.sheet);
+};
+
+const addRule = (key: string, group: Group, text: string) => {
+  if (rules.has(key) || collected?.has(key)) {
+    return;
+  }
+  const target = managedSheet();
+  if (collected && !target) {
+    collected.set(key, { group, text });
+    return;
+  }
+  rules.set(key, { group, text });
+  if (!target || hydrated.has(key)) {
+    return;
+  }
+  const index = GROUPS.slice(0, GROUPS.indexOf(group) + 1).reduce(
+    (total, name) => total + groupSizes[name],
+    0
+  );
+  try {
+    target.insertRule(text, index);
+    groupSizes[group]++;
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      warnOnce(`css() could not insert the rule "${text}".`, error);
+    }
+  }
+};
+
+const collect = (
+  styles: CSSStyles,
+  media: string[],
+  pseudo: string,
+  declarations: Map<string, [media: string[], pseudo: string, css: string]>
+) => {
+  for (const [name, value] of Object.entries(styles)) {
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (name.startsWith(':')) {
+      collect(value as CSSStyles, media, pseudo + name, declarations);
+    } else if (name.startsWith('@media ')) {
+      collect(
+        value as CSSStyles,
+        [...media, name.slice(7).trim()],
+        pseudo,
+        declarations
+      );
+    } else {
+      // Later declarations of a property in the same context win
+      declarations.set(`${media.join(' and ')}|${pseudo}|${name}`, [
+        media,
+        pseudo,
+        cssDeclaration(name, value as string | number),
+      ]);
+    }
+  }
+};
+
+/**
+ * Creates atomic classes for style objects and returns their names, a
+ * valid clsx `className` value. Later style objects override earlier ones.
+ *
+ * Nest pseudo-classes and pseudo-elements under keys starting with `:`,
+ * and media queries under keys starting with `@media `; they can be nested
+ * in each other. Numbers get `px` like React inline styles.
+ *
+ * @param styles - The style objects; falsy values are skipped
+ * @returns The class names, separated by spaces
+ *
+ * @example
+ * const card = css({
+ *   padding: 16,
+ *   color: theme.colors.text,
+ *   ':hover': { boxShadow: '0 2px 8px rgb(0 0 0 / 20%)' },
+ *   '@media (min-width: 640px)': { padding: 24 },
+ * });
+ *
+ * div({ className: [card, { selected }] }, ...children);
+ */
+export const css = (
+  ...styles: (CSSStyles | false | null | undefined)[]
+): string => {
+  const declarations = new Map<
+    string,
+    [media: string[], pseudo: string, css: string]
+  >();
+  for (const style of styles) {
+    if (style) {
+      collect(style, [], '', declarations);
+    }
+  }
+
+  return Array.from(declarations.values(), ([media, pseudo, declaration]) => {
+    const query = media.join(' and ');
+    const name = `x${hash(`${query}|${pseudo}|${declaration}`)}`;
+    const rule = `.${name}${pseudo}{${declaration}}`;
+    if (query) {
+      addRule(name, 'media', `@media ${query}{${rule}}`);
+    } else {
+      addRule(name, pseudo ? 'pseudo' : 'base', rule);
+    }
+    return name;
+  }).join(' ');
+};
+
+/**
+ * Defines design tokens as CSS variables and returns references to them,
+ * for use in `css()` styles. Calling it again with another selector, such
+ * as `.dark`, overrides the values inside that selector.
+ *
+ * @param tokens - The token values, nested by group
+ * @param selector - Where the variables are defined
+ * @returns `var()` references in the shape of the tokens
+ *
+ * @example
+ * const theme = createTheme({ colors: { text: '#111', accent: '#06c' } });
+ * createTheme({ colors: { text: '#eee', accent: '#4af' } }, '.dark');
+ *
+ * css({ color: theme.colors.accent }); // color: var(--colors-accent)
+ */
+export const createTheme = <Tokens extends ThemeTokens>(
+  tokens: Tokens,
+  selector = ':root'
+): ThemeVars<Tokens> => {
+  const declarations: string[] = [];
+  const references = (group: ThemeTokens, path: string[]) => {
+    const result: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(group)) {
+      const variable = `--${[...path, name].join('-').replace(/[^\w-]/g, '-')}`;
+      if (typeof value === 'object') {
+        result[name] = references(value, [...path, name]);
+      } else {
+        declarations.push(`${variable}:${value}`);
+        result[name] = `var(${variable})`;
+      }
+    }
+    return result;
+  };
+
+  const vars = references(tokens, []) as ThemeVars<Tokens>;
+  const text = `${selector}{${declarations.join(';')}}`;
+  addRule(themeKey(text), 'theme', text);
+  return vars;
+};
+
+const cssText = (list: Iterable<Rule>) =>
+  escapeText(
+    Array.from(list)
+      .sort((a, b) => GROUPS.indexOf(a.group) - GROUPS.indexOf(b.group))
+      .map((rule) => rule.text)
+      .join('')
+  );
+
+/**
+ * Returns every rule created so far outside `collectCss`, for static
+ * rendering: put it in a `style` element with the id `STYLE_ELEMENT_ID`, and
+ * the browser reuses those rules instead of inserting them again.
+ *
+ * @example
+ * const body = renderToString(app);
+ * const head = `<style id="${STYLE_ELEMENT_ID}">${getCssText()}</style>`;
+ */
+export const getCssText = () => cssText(rules.values());
+
+/**
+ * Runs a server render and returns its result with the CSS it needs: the
+ * rules created outside any collection, such as module-level styles and
+ * themes, and the rules created during the render. On the server, rules
+ * created during the render are dropped afterwards, so each request only
+ * gets its own and memory stays flat. In the browser, rules are kept as
+ * usual.
+ *
+ * @param render - Renders synchronously, e.g. with `renderToString`
+ * @returns The render's result and the CSS text for `STYLE_ELEMENT_ID`
+ *
+ * @example
+ * const { result: body, cssText } = collectCss(() => renderToString(app));
+ * const head = `<style id="${STYLE_ELEMENT_ID}">${cssText}</style>`;
+ */
+export const collectCss = <Result>(
+  render: () => Result
+): { result: Result; cssText: string } => {
+  const previous = collected;
+  collected = new Map();
+  try {
+    const result = render();
+    return {
+      result,
+      cssText: cssText([...rules.values(), ...collected.values()]),
+    };
+  } finally {
+    collected = previous;
+  }
+};
@@ -0,0 +1,70 @@
+// CSS declarations from React style objects, shared by the static HTML
+// serializer, css() and the HTML to code converter.
+
+// Numeric style values that are not lengths, so get no `px` unit
+const UNITLESS_STYLES = [
+  'animationIterationCount',
+  'aspectRatio',
+  'columnCount',
+  'columns',
+  'fillOpacity',
+  'flex',
+  'flexGrow',
+  'flexShrink',
+  'floodOpacity',
+  'fontWeight',
+  'gridArea',
+  'gridColumn',
+  'gridColumnEnd',
+  'gridColumnStart',
+  'gridRow',
+  'gridRowEnd',
+  'gridRowStart',
+  'lineClamp',
+  'lineHeight',
+  'opacity',
+  'order',
+  'orphans',
+  'scale',
+  'stopOpacity',
+  'strokeDasharray',
+  'strokeDashoffset',
+  'strokeMiterlimit',
+  'strokeOpacity',
+  'strokeWidth',
+  'tabSize',
+  'widows',
+  'zIndex',
+  'zoom',
+];
+
+/**
+ * Whether a React style property takes numbers without a unit, with or
+ * without a vendor prefix.
+ */
+export const isUnitlessStyle = (name: string) =>
+  UNITLESS_STYLES.includes(
+    name.replace(/^(?:Webkit|Moz|ms|O)([A-Z])/, (_prefix, letter: string) =>
+      letter.toLowerCase()
+    )
+  );
+
+/**
+ * Converts a React style property and value to a CSS declaration, e.g.
+ * `marginTop: 8` to `margin-top:8px`.
+ */
+export const cssDeclaration = (name: string, value: string | number) => {
+  const property = name.startsWith('--')
+    ? name
+    : name
+        .replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)
+        .replace(/^ms-/, '-ms-');
+  const css =
+    typeof value === 'number' &&
+    value !== 0 &&
+    !name.startsWith('--') &&
+    !isUnitlessStyle(name)
+      ? `${value}px`
+      : String(value);
+  return `${property}:${css.trim()}`;
+};
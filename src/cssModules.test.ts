@@ -0,0 +1,54 @@
+import { render } from '@testing-library/react';
+import { bindStyles } from './cssModules';
+import { configure } from './plugins';
+import { div } from './htmlElements';
+
+const styles = {
+  tab: 'Tab_tab__a1',
+  active: 'Tab_active__b2',
+  disabled: 'Tab_disabled__c3',
+} as const;
+
+describe('bindStyles', () => {
+  const cx = bindStyles(styles);
+
+  test('resolves strings, arrays and objects through the module', () => {
+    expect(cx('tab', { active: true, disabled: false })).toBe(
+      'Tab_tab__a1 Tab_active__b2'
+    );
+    expect(cx(['tab', [false, 'disabled']], null, undefined)).toBe(
+      'Tab_tab__a1 Tab_disabled__c3'
+    );
+    expect(cx()).toBe('');
+  });
+
+  test('warns in development about names missing from the module', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const loose = bindStyles<Record<string, string>>(styles);
+
+    expect(loose('tab', 'global-focus')).toBe('Tab_tab__a1 global-focus');
+    // @ts-expect-error: not a class of the module
+    expect(cx('missing')).toBe('missing');
+    expect(warn).toHaveBeenCalledWith(
+      'react-dom-functions: Class "global-focus" is not in the CSS module passed to bindStyles; it is used as-is.'
+    );
+    warn.mockRestore();
+  });
+
+  test('resolves every className when used as a plugin', () => {
+    configure({
+      plugins: [
+        (props) =>
+          typeof props.className === 'string'
+            ? { ...props, className: cx(props.className as 'tab') }
+            : props,
+      ],
+    });
+    const { container } = render(div({ className: ['tab', { active: true }] }));
+    configure({ plugins: [] });
+
+    expect(container.firstChild).toHaveClass('Tab_tab__a1 Tab_active__b2', {
+      exact: true,
+    });
+  });
+});
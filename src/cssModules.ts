@@ -0,0 +1,54 @@
+import clsx, { type ClassValue } from 'clsx';
+import { warnOnce } from './dev';
+
+/**
+ * clsx syntax restricted to the class names of a CSS module: names, arrays,
+ * and objects whose keys are names.
+ */
+export type ModuleClassName<Name extends string> =
+  | Name
+  | { [Key in Name]?: unknown }
+  | readonly ModuleClassName<Name>[]
+  | boolean
+  | null
+  | undefined;
+
+/**
+ * Creates a clsx-like function that resolves class names through a CSS
+ * module, so conditional objects and arrays keep working with the module's
+ * generated names. Names missing from the module are passed through as-is,
+ * with a warning in development.
+ *
+ * Class names are typed from the module: with a generated `.d.ts` listing
+ * the classes, unknown names are type errors.
+ *
+ * @param styles - The CSS module's class name map
+ * @returns A function taking clsx syntax and returning the module's names
+ *
+ * @example
+ * import styles from './Tab.module.css';
+ *
+ * const cx = bindStyles(styles);
+ *
+ * button({ className: cx('tab', { active: isActive }) }, label);
+ * // class="Tab_tab__x1 Tab_active__x2"
+ */
+export const bindStyles = <Styles extends Readonly<Record<string, string>>>(
+  styles: Styles
+) => {
+  return (...classNames: ModuleClassName<keyof Styles & string>[]) =>
+    clsx(classNames as ClassValue[])
+      .split(' ')
+      .map((name) => {
+        if (!name || Object.prototype.hasOwnProperty.call(styles, name)) {
+          return name && styles[name];
+        }
+        if (process.env.NODE_ENV !== 'production') {
+          warnOnce(
+            `Class "${name}" is not in the CSS module passed to bindStyles; it is used as-is.`
+          );
+        }
+        return name;
+      })
+      .join(' ');
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import { defineCustomElement } from './customElement';
+import { span } from './htmlElements';
+
+type DatePicker = HTMLElement & {
+  value?: Date;
+  disabledDates?: Date[];
+  open?: boolean;
+};
+
+const datePicker = defineCustomElement<
+  { value?: Date; disabledDates?: Date[]; open?: boolean; locale?: string },
+  { 'date-change': CustomEvent<Date>; close: Event }
+>('ds-date-picker', ['date-change', 'close']);
+
+describe('defineCustomElement', () => {
+  test('renders attributes and sets other values as properties', () => {
+    const value = new Date(2024, 0, 1);
+    const disabledDates = [new Date(2024, 0, 2)];
+    const { container } = render(
+      datePicker(
+        {
+          className: ['picker', { compact: true }],
+          locale: 'fr',
+          value,
+          disabledDates,
+          open: true,
+          'data-testid': 'picker',
+        },
+        span('Pick a date')
+      )
+    );
+    const element = container.firstChild as DatePicker;
+
+    expect(element.tagName).toBe('DS-DATE-PICKER');
+    expect(element.getAttribute('class')).toBe('picker compact');
+    expect(element.getAttribute('locale')).toBe('fr');
+    expect(element.getAttribute('data-testid')).toBe('picker');
+    expect(element.value).toBe(value);
+    expect(element.disabledDates).toBe(disabledDates);
+    expect(element.open).toBe(true);
+    expect(element.hasAttribute('value')).toBe(false);
+    expect(element).toHaveTextContent('Pick a date');
+  });
+
+  test('updates and clears properties between renders', () => {
+    const first = new Date(2024, 0, 1);
+    const second = new Date(2024, 5, 1);
+    const { container, rerender } = render(
+      datePicker({ value: first, open: true })
+    );
+    const element = container.firstChild as DatePicker;
+
+    rerender(datePicker({ value: second }));
+    expect(element.value).toBe(second);
+    expect(element.open).toBeUndefined();
+  });
+
+  test('adds event listeners that call the latest handlers', () => {
+    const onClose = jest.fn();
+    const first = jest.fn();
+    const second = jest.fn();
+    const { container, rerender, unmount } = render(
+      datePicker({ 'onDate-change': first, onClose })
+    );
+    const element = container.firstChild as DatePicker;
+    const change = (date: Date) =>
+      act(() => {
+        element.dispatchEvent(new CustomEvent('date-change', { detail: date }));
+      });
+
+    change(new Date(2024, 0, 1));
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(first.mock.calls[0][0].detail).toEqual(new Date(2024, 0, 1));
+
+    rerender(datePicker({ 'onDate-change': second, onClose }));
+    change(new Date(2024, 0, 2));
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      element.dispatchEvent(new Event('close'));
+    });
+    expect(onClose).toHaveBeenCalledTimes(1);
+
+    unmount();
+    change(new Date(2024, 0, 3));
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  test('leaves React event handlers to React', () => {
+    const onKeyDown = jest.fn();
+    const onDoubleClick = jest.fn();
+    const onClick = jest.fn();
+    const { container } = render(
+      datePicker({ onKeyDown, onDoubleClick, onClick })
+    );
+    const element = container.firstChild as DatePicker;
+
+    fireEvent.keyDown(element, { key: 'Enter' });
+    fireEvent.doubleClick(element);
+    fireEvent.click(element);
+
+    expect(onKeyDown).toHaveBeenCalledTimes(1);
+    expect(onKeyDown.mock.calls[0][0].key).toBe('Enter');
+    expect(onDoubleClick).toHaveBeenCalledTimes(1);
+    expect('nativeEvent' in onClick.mock.calls[0][0]).toBe(true);
+  });
+
+  test('requires the event names when there are events', () => {
+    const checks = () => [
+      // @ts-expect-error - the events must be listed
+      defineCustomElement<object, { close: Event }>('ds-dialog'),
+      // @ts-expect-error - not an event of the element
+      defineCustomElement<object, { close: Event }>('ds-dialog', ['open']),
+      defineCustomElement<{ open?: boolean }>('ds-dialog'),
+    ];
+    expect(checks).toBeInstanceOf(Function);
+  });
+
+  test('forwards refs to the element', () => {
+    const ref = React.createRef<HTMLElement>();
+    const callback = jest.fn();
+
+    render(datePicker({ ref }));
+    render(datePicker({ ref: callback }));
+
+    expect(ref.current?.tagName).toBe('DS-DATE-PICKER');
+    expect(callback).toHaveBeenCalledWith(expect.any(HTMLElement));
+  });
+});
@@ -0,0 +1,214 @@
+import React from 'react';
+import { normalizeProps, resolveArguments } from './arguments';
+import type {
+  BaseElementProps,
+  DataAttributes,
+  ElementFunction,
+  WithClsxClassName,
+  WithStyleValue,
+} from './types';
+
+// Custom element factories
+//
+// React 18 renders every prop of a custom element as a string attribute and
+// ignores event handlers for events it does not know, while React 19 sets
+// properties and adds listeners by its own rules. The factory takes both out
+// of React's hands: strings and numbers stay attributes (so server rendering
+// still works), other values are set as DOM properties, and the handlers of
+// the element's own events are added with `addEventListener`, through a ref.
+// React's own handlers, such as `onClick`, are left to React.
+
+/**
+ * Handler props for a map of event names to event types: `change` is
+ * handled by `onChange`, `sl-input` by `onSl-input`.
+ */
+export type CustomElementEventHandlers<Events> = {
+  [Name in keyof Events & string as `on${Capitalize<Name>}`]?: (
+    event: Events[Name]
+  ) => void;
+};
+
+/**
+ * The props of a custom element factory: the element's own properties, its
+ * event handlers, and the global HTML attributes.
+ */
+export type CustomElementProps<Props, Events> = Props &
+  CustomElementEventHandlers<Events> &
+  Omit<
+    WithStyleValue<WithClsxClassName<React.HTMLAttributes<HTMLElement>>>,
+    keyof Props | keyof CustomElementEventHandlers<Events>
+  > &
+  DataAttributes & {
+    ref?: React.Ref<HTMLElement & Partial<Props>>;
+  };
+
+/**
+ * The `events` argument of `defineCustomElement`: the names of the events,
+ * required when there are any.
+ */
+export type CustomElementEventNames<Events> = keyof Events extends never
+  ? [events?: readonly never[]]
+  : [events: readonly (keyof Events & string)[]];
+
+// Props React handles the same way for every element
+const REACT_PROPS = [
+  'children',
+  'dangerouslySetInnerHTML',
+  'style',
+  'suppressContentEditableWarning',
+  'suppressHydrationWarning',
+];
+
+// change -> onChange, sl-input -> onSl-input
+const handlerName = (event: string) =>
+  `on${event[0].toUpperCase()}${event.slice(1)}`;
+
+// Layout effects warn during server rendering, where they never run anyway
+const useIsomorphicLayoutEffect =
+  typeof window === 'undefined' ? React.useEffect : React.useLayoutEffect;
+
+/**
+ * Creates an element function for a custom element (web component).
+ *
+ * Props that are strings or numbers are rendered as attributes, like for
+ * other elements. Any other value, such as an object, an array or a
+ * boolean, is set as a DOM property after the element mounts. Handlers of
+ * the events listed in `events` are added as event listeners, while React's
+ * own handlers such as `onClick` are handled by React. This behaves the same
+ * on React 18 and React 19.
+ *
+ * @template Props - The element's properties
+ * @template Events - The events it dispatches, by name
+ * @param tag - The custom element's tag name
+ * @param events - The names of the events in `Events`, which are not known
+ * at runtime otherwise
+ * @returns An element function for the tag
+ *
+ * @example
+ * const datePicker = defineCustomElement<
+ *   { value?: Date; disabledDates?: Date[] },
+ *   { 'date-change': CustomEvent<Date> }
+ * >('ds-date-picker', ['date-change']);
+ *
+ * datePicker({ value, disabledDates, 'onDate-change': (event) => setValue(event.detail) });
+ */
+export const defineCustomElement = <
+  Props extends object = Record<never, never>,
+  Events extends object = Record<never, never>
+>(
+  tag: string,
+  ...[events = []]: CustomElementEventNames<Events>
+): ElementFunction<CustomElementProps<Props, Events>> => {
+  const eventsByHandler = new Map(
+    (events as readonly string[]).map((event) => [handlerName(event), event])
+  );
+
+  const CustomElement = React.forwardRef<HTMLElement, Record<string, unknown>>(
+    function CustomElement(props, forwardedRef) {
+      const attributes: Record<string, unknown> = {};
+      const properties: Record<string, unknown> = {};
+      const handlers: Record<string, (event: Event) => void> = {};
+      for (const [name, value] of Object.entries(props)) {
+        if (name === 'className') {
+          // React 18 renders className on custom elements as is
+          attributes.class = value;
+        } else if (eventsByHandler.has(name) && typeof value === 'function') {
+          const event = eventsByHandler.get(name) as string;
+          handlers[event] = value as (event: Event) => void;
+        } else if (
+          REACT_PROPS.includes(name) ||
+          /^on[A-Z]/.test(name) ||
+          name.startsWith('aria-') ||
+          name.startsWith('data-') ||
+          value === null ||
+          value === undefined ||
+          typeof value === 'string' ||
+          typeof value === 'number'
+        ) {
+          attributes[name] = value;
+        } else {
+          properties[name] = value;
+        }
+      }
+
+      const elementRef = React.useRef<HTMLElement | null>(null);
+      const ref = React.useCallback(
+        (element: HTMLElement | null) => {
+          elementRef.current = element;
+          if (typeof forwardedRef === 'function') {
+            forwardedRef(element);
+          } else if (forwardedRef) {
+            forwardedRef.current = element;
+          }
+        },
+        [forwardedRef]
+      );
+
+      // Properties set by the previous render, cleared when they are removed
+      const previousProperties = React.useRef<string[]>([]);
+      useIsomorphicLayoutEffect(() => {
+        const element = elementRef.current as unknown as Record<
+          string,
+          unknown
+        > | null;
+        if (!element) {
+          return;
+        }
+        previousProperties.current
+          .filter((name) => !(name in properties))
+          .forEach((name) => {
+            element[name] = undefined;
+          });
+        Object.entries(properties).forEach(([name, value]) => {
+          if (element[name] !== value) {
+            element[name] = value;
+          }
+        });
+        previousProperties.current = Object.keys(properties);
+      });
+
+      // Listeners stay attached while the event names stay the same, and call
+      // the handlers of the latest render
+      const latestHandlers = React.useRef(handlers);
+      useIsomorphicLayoutEffect(() => {
+        latestHandlers.current = handlers;
+      });
+      const events = Object.keys(handlers).sort().join(' ');
+      useIsomorphicLayoutEffect(() => {
+        const element = elementRef.current;
+        if (!element || !events) {
+          return;
+        }
+        const listener = (event: Event) => {
+          latestHandlers.current[event.type]?.(event);
+        };
+        const names = events.split(' ');
+        names.forEach((name) => element.addEventListener(name, listener));
+        return () => {
+          names.forEach((name) => element.removeEventListener(name, listener));
+        };
+      }, [events]);
+
+      return React.createElement(tag, { ...attributes, ref });
+    }
+  );
+  CustomElement.displayName = `CustomElement(${tag})`;
+
+  const elementFunction = (
+    propsOrChildren?: CustomElementProps<Props, Events> | React.ReactNode,
+    ...rest: React.ReactNode[]
+  ) => {
+    const [props, children] = resolveArguments<BaseElementProps>(
+      propsOrChildren,
+      rest
+    );
+
+    return React.createElement(
+      CustomElement,
+      normalizeProps(props, tag),
+      ...children
+    );
+  };
+
+  return elementFunction as ElementFunction<CustomElementProps<Props, Events>>;
+};
@@ -0,0 +1,200 @@
+import React from 'react';
+import { fromData, toData, type DataNode } from './data';
+import { button, div, fragment, li, span, ul } from './htmlElements';
+import { toHTML } from './toHTML';
+import { defineComponent } from './utils';
+
+const Badge = defineComponent(function Badge(
+  { tone }: { tone: string },
+  children
+) {
+  return span({ className: ['badge', `badge-${tone}`] }, ...children);
+});
+
+describe('fromData', () => {
+  test('builds elements with clsx class names, fragments and text', () => {
+    const node = fromData([
+      'div',
+      { className: ['card', { active: true, hidden: false }], id: 'main' },
+      ['h1', 'Title'],
+      ['<>', 'Hello ', ['strong', 'world'], null, false],
+      ['my-widget', { 'data-id': 3 }],
+    ]);
+
+    expect(toHTML(node)).toBe(
+      '<div class="card active" id="main"><h1>Title</h1>Hello <strong>world</strong><my-widget data-id="3"></my-widget></div>'
+    );
+  });
+
+  test('resolves components through the registry', () => {
+    const node = fromData(['section', ['Badge', { tone: 'info' }, 'New']], {
+      components: { Badge },
+    });
+
+    expect(toHTML(node)).toBe(
+      '<section><span class="badge badge-info">New</span></section>'
+    );
+  });
+
+  test('rejects unknown tags and components with their position', () => {
+    expect(() => fromData(['div', ['p', ['blink', 'x']]])).toThrow(
+      'react-dom-functions: Unknown tag "blink" (at data[1][1][0])'
+    );
+    expect(() => fromData(['div', ['Badge', { tone: 'info' }]])).toThrow(
+      'react-dom-functions: Unknown component "Badge"; add it to the components option (at data[1][0])'
+    );
+    // Registry lookups ignore inherited properties
+    expect(() => fromData(['constructor'])).toThrow(
+      'Unknown tag "constructor"'
+    );
+  });
+
+  test('rejects markup, code-loading tags and javascript: URLs', () => {
+    expect(() =>
+      fromData(['div', { dangerouslySetInnerHTML: { __html: '<img>' } }])
+    ).toThrow(
+      'react-dom-functions: The "dangerouslySetInnerHTML" prop is not allowed in data (at data[1].dangerouslySetInnerHTML)'
+    );
+    expect(() => fromData(['div', ['script', 'alert(1)']])).toThrow(
+      'The tag "script" is only allowed through the tags option (at data[1][0])'
+    );
+    expect(() =>
+      fromData(['a', { href: ' java\tscript:alert(1)' }, 'Go'])
+    ).toThrow('javascript: URLs are not allowed in data (at data[1].href)');
+  });
+
+  test('compares prop names whatever their case or namespace', () => {
+    expect(() =>
+      fromData(['a', { HREF: 'javascript:alert(1)' }, 'Go'])
+    ).toThrow('javascript: URLs are not allowed in data (at data[1].HREF)');
+    expect(() =>
+      fromData(['svg', ['a', { 'xlink:href': 'javascript:alert(1)' }]])
+    ).toThrow(
+      'javascript: URLs are not allowed in data (at data[1][1].xlink:href)'
+    );
+    expect(() =>
+      fromData(['button', { formaction: 'javascript:alert(1)' }, 'Go'])
+    ).toThrow(
+      'javascript: URLs are not allowed in data (at data[1].formaction)'
+    );
+  });
+
+  test('rejects event handlers whatever their case', () => {
+    expect(() => fromData(['img', { src: 'x', onerror: 'alert(1)' }])).toThrow(
+      'Event handlers are not allowed in data (at data[1].onerror)'
+    );
+    expect(() => fromData(['div', { OnClick: 'alert(1)' }])).toThrow(
+      'Event handlers are not allowed in data (at data[1].OnClick)'
+    );
+  });
+
+  test('rejects tags that can set a javascript: URL', () => {
+    expect(() =>
+      fromData([
+        'svg',
+        ['a', ['set', { attributeName: 'href', to: 'javascript:alert(1)' }]],
+      ])
+    ).toThrow(
+      'The tag "set" is only allowed through the tags option (at data[1][1][0])'
+    );
+    expect(() =>
+      fromData(['svg', ['animate', { attributeName: 'href' }]])
+    ).toThrow('The tag "animate" is only allowed through the tags option');
+    expect(() =>
+      fromData([
+        'meta',
+        { httpEquiv: 'refresh', content: '0;url=javascript:alert(1)' },
+      ])
+    ).toThrow('The tag "meta" is only allowed through the tags option');
+    expect(() => fromData(['base', { href: '/' }])).toThrow(
+      'The tag "base" is only allowed through the tags option'
+    );
+  });
+
+  test('limits host tags to the tags option', () => {
+    const tags = ['p', 'iframe'];
+
+    expect(toHTML(fromData(['iframe', { src: '/embed' }], { tags }))).toBe(
+      '<iframe src="/embed"></iframe>'
+    );
+    expect(() => fromData(['p', ['em', 'x']], { tags })).toThrow(
+      'The tag "em" is not in the tags option (at data[1][0])'
+    );
+  });
+
+  test('rejects values that are not JSON data', () => {
+    const invalid = [
+      'button',
+      { title: () => undefined },
+      'Save',
+    ] as unknown as DataNode;
+
+    expect(() => fromData(invalid)).toThrow(
+      'react-dom-functions: a function cannot be serialized (at data[1].title)'
+    );
+    expect(() =>
+      fromData(['div', { style: { width: NaN } }] as unknown as DataNode)
+    ).toThrow('NaN cannot be serialized (at data[1].style.width)');
+    expect(() =>
+      fromData(['ul', ['li', 'a'], { text: 'b' }] as unknown as DataNode)
+    ).toThrow('Expected an element array or text, got an object (at data[2])');
+    expect(() => fromData([] as unknown as DataNode)).toThrow(
+      'Expected a tag name, got undefined (at data[0])'
+    );
+  });
+});
+
+describe('toData', () => {
+  test('converts element trees, flattening lists of children', () => {
+    const tree = div(
+      { className: ['list', { empty: false }], style: { marginTop: 4 } },
+      ul(['a', 'b'].map((item) => li({ key: item }, item))),
+      fragment('x', null, 1)
+    );
+
+    expect(toData(tree)).toEqual([
+      'div',
+      { className: 'list', style: { marginTop: 4 } },
+      ['ul', ['li', { key: 'a' }, 'a'], ['li', { key: 'b' }, 'b']],
+      ['<>', 'x', null, 1],
+    ]);
+  });
+
+  test('round-trips through JSON and fromData', () => {
+    const data: DataNode = [
+      'article',
+      { 'aria-label': 'Post' },
+      ['Badge', { tone: 'info' }, 'New'],
+      ['p', 'Body'],
+    ];
+    const options = { components: { Badge } };
+    const node = fromData(JSON.parse(JSON.stringify(data)), options);
+
+    expect(toData(node, options)).toEqual(data);
+  });
+
+  test('finds defineComponent components called directly', () => {
+    expect(
+      toData(Badge({ tone: 'info' }, 'New'), { components: { Badge } })
+    ).toEqual(['Badge', { tone: 'info' }, 'New']);
+  });
+
+  test('rejects event handlers and unregistered components', () => {
+    expect(() =>
+      toData(div(button({ onClick: () => undefined }, 'Go')))
+    ).toThrow(
+      'react-dom-functions: Event handlers are not allowed in data (at node.props.children.props.onClick)'
+    );
+    expect(() => toData(Badge({ tone: 'info' }))).toThrow(
+      'react-dom-functions: Component "Badge" is not in the components option (at node)'
+    );
+    expect(() => toData(React.createElement('blink'))).toThrow(
+      'Unknown tag "blink"'
+    );
+    expect(() =>
+      toData(div({ dangerouslySetInnerHTML: { __html: '<b>x</b>' } }))
+    ).toThrow(
+      'The "dangerouslySetInnerHTML" prop is not allowed in data (at node.props.dangerouslySetInnerHTML)'
+    );
+  });
+});
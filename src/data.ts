@@ -0,0 +1,369 @@
+import React from 'react';
+import { isPropsObject } from './arguments';
+import { ELEMENT_TAGS } from './elementTags';
+import type { AnyComponent, ElementProps } from './types';
+import { asComponentFn, createMemoizedElement } from './utils';
+
+// Serializable element trees
+//
+// A Hiccup-style array format for element trees that can be stored as JSON:
+// `['div', { className: 'x' }, ['span', 'hi']]`. An element is an array of
+// its tag, optional props and children; `'<>'` is a fragment. Components are
+// referenced by name and resolved through a registry, so data can only render
+// the components it is given.
+
+/**
+ * A JSON value allowed in props: `style` objects and clsx `className`
+ * arrays and objects are plain data too.
+ */
+export type DataValue =
+  | string
+  | number
+  | boolean
+  | null
+  | DataValue[]
+  | { [key: string]: DataValue };
+
+export type DataProps = { [name: string]: DataValue };
+
+/**
+ * An element: `[tag, props?, ...children]`.
+ */
+export type ElementData = [tag: string, ...rest: (DataProps | DataNode)[]];
+
+/**
+ * A node of a data tree. `null` and booleans render nothing, like in React.
+ */
+export type DataNode = string | number | boolean | null | ElementData;
+
+export type DataOptions = {
+  /**
+   * The components data may reference, by name. Anything else starting
+   * with an uppercase letter is rejected.
+   */
+  components?: Record<string, AnyComponent>;
+  /**
+   * The host tags data may use. By default every known element and custom
+   * element is allowed except `animate`, `base`, `embed`, `iframe`, `meta`,
+   * `object`, `script` and `set`, which can load or run code.
+   */
+  tags?: readonly string[];
+};
+
+/**
+ * The tag of fragments in data.
+ */
+const FRAGMENT = '<>';
+
+const knownTags = new Set(ELEMENT_TAGS);
+
+// Custom element names contain a hyphen and start with a lowercase letter
+const isCustomElement = (tag: string) => /^[a-z][\w.]*-[\w.-]*$/.test(tag);
+
+const isHostTag = (tag: string) => knownTags.has(tag) || isCustomElement(tag);
+
+// Tags that load or run code, only allowed through the tags option. SVG
+// `animate` and `set` can change an `href` to a javascript: URL, and `meta`
+// can redirect to one.
+const UNSAFE_TAGS = [
+  'animate',
+  'base',
+  'embed',
+  'iframe',
+  'meta',
+  'object',
+  'script',
+  'set',
+];
+
+// Props whose string values browsers follow as URLs, lowercased
+const URL_PROPS = ['action', 'formaction', 'href', 'src', 'xlinkhref'];
+
+// Attribute names are case-insensitive and `xlink:href` is an `href`
+const attributeKey = (name: string) => name.toLowerCase().replace(/^.*:/, '');
+
+// Browsers ignore control characters and spaces in the scheme
+const isJavaScriptURL = (value: unknown) =>
+  typeof value === 'string' &&
+  /^javascript:/i.test(
+    Array.from(value)
+      .filter((character) => character > ' ')
+      .join('')
+  );
+
+const fail = (message: string, path: string): never => {
+  throw new TypeError(`react-dom-functions: ${message} (at ${path})`);
+};
+
+const describeValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  if (typeof value === 'function') {
+    return 'a function';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (isPropsObject(value)) {
+    return 'an object';
+  }
+  if (typeof value === 'object') {
+    return `an instance of ${value.constructor?.name ?? 'an unknown class'}`;
+  }
+  return `a ${typeof value}`;
+};
+
+// Checks a prop value is JSON data, returning it without undefined entries
+const toDataValue = (value: unknown, path: string): DataValue | undefined => {
+  if (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  ) {
+    return value;
+  }
+  if (value === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    // JSON turns undefined array items into null too
+    return value.map(
+      (item, index) => toDataValue(item, `${path}[${index}]`) ?? null
+    );
+  }
+  if (isPropsObject(value)) {
+    const result: { [key: string]: DataValue } = {};
+    for (const [key, item] of Object.entries(value)) {
+      const converted = toDataValue(item, `${path}.${key}`);
+      if (converted !== undefined) {
+        result[key] = converted;
+      }
+    }
+    return result;
+  }
+  return fail(`${describeValue(value)} cannot be serialized`, path);
+};
+
+// Checks the props are allowed in data, returning them without undefined
+// values
+const checkProps = (props: Record<string, unknown>, path: string) => {
+  const result: DataProps = {};
+  for (const [name, value] of Object.entries(props)) {
+    if (
+      name === 'children' ||
+      name === 'ref' ||
+      name === 'dangerouslySetInnerHTML'
+    ) {
+      fail(`The "${name}" prop is not allowed in data`, `${path}.${name}`);
+    }
+    const key = attributeKey(name);
+    // Whatever their case, since a string handler is code
+    if (key.startsWith('on')) {
+      fail('Event handlers are not allowed in data', `${path}.${name}`);
+    }
+    if (URL_PROPS.includes(key) && isJavaScriptURL(value)) {
+      fail('javascript: URLs are not allowed in data', `${path}.${name}`);
+    }
+    const converted = toDataValue(value, `${path}.${name}`);
+    if (converted !== undefined) {
+      result[name] = converted;
+    }
+  }
+  return result;
+};
+
+// Why data may not use a host tag, if it may not
+const tagError = (tag: string, tags: readonly string[] | undefined) => {
+  if (tags) {
+    return tags.includes(tag)
+      ? undefined
+      : `The tag "${tag}" is not in the tags option`;
+  }
+  if (UNSAFE_TAGS.includes(tag)) {
+    return `The tag "${tag}" is only allowed through the tags option`;
+  }
+  return isHostTag(tag) ? undefined : `Unknown tag "${tag}"`;
+};
+
+/**
+ * Builds React elements from data, with the same element functions as
+ * `createMemoizedElement`, so `className` takes clsx syntax.
+ *
+ * @param data - The data tree, e.g. parsed from JSON
+ * @param options - The components and host tags the data may use
+ * @returns The React node the data describes
+ * @throws TypeError when the data references a tag or component it may not
+ * use, or holds props that are not JSON data or that could run code, such as
+ * event handlers, `dangerouslySetInnerHTML` and `javascript:` URLs
+ *
+ * @example
+ * fromData(['div', { className: ['card', { active: true }] }, ['Title', 'Hi']], {
+ *   components: { Title },
+ * });
+ */
+export const fromData = (
+  data: DataNode,
+  options: DataOptions = {}
+): React.ReactNode => {
+  const { components = {}, tags } = options;
+
+  const build = (node: unknown, path: string): React.ReactNode => {
+    if (
+      node === null ||
+      typeof node === 'boolean' ||
+      typeof node === 'string' ||
+      (typeof node === 'number' && Number.isFinite(node))
+    ) {
+      return node;
+    }
+    if (!Array.isArray(node)) {
+      return fail(
+        `Expected an element array or text, got ${describeValue(node)}`,
+        path
+      );
+    }
+
+    const [tag, ...rest] = node as unknown[];
+    if (typeof tag !== 'string') {
+      return fail(
+        `Expected a tag name, got ${describeValue(tag)}`,
+        `${path}[0]`
+      );
+    }
+    const hasProps = isPropsObject(rest[0]);
+    const props = hasProps ? (rest[0] as Record<string, unknown>) : null;
+    if (props) {
+      checkProps(props, `${path}[1]`);
+    }
+    const offset = hasProps ? 2 : 1;
+    const children = rest
+      .slice(offset - 1)
+      .map((child, index) => build(child, `${path}[${index + offset}]`));
+
+    if (tag === FRAGMENT) {
+      return React.createElement(React.Fragment, props, ...children);
+    }
+    if (Object.prototype.hasOwnProperty.call(components, tag)) {
+      // Data props are only known at runtime
+      const component = components[tag] as React.ComponentType<DataProps>;
+      return asComponentFn(component)((props ?? {}) as DataProps, ...children);
+    }
+    if (/^[A-Z]/.test(tag)) {
+      return fail(
+        `Unknown component "${tag}"; add it to the components option`,
+        `${path}[0]`
+      );
+    }
+    const error = tagError(tag, tags);
+    if (error) {
+      return fail(error, `${path}[0]`);
+    }
+    return createMemoizedElement(tag)(
+      props as ElementProps | null,
+      ...children
+    );
+  };
+
+  return build(data, 'data');
+};
+
+/**
+ * Turns an element tree back into data, the inverse of `fromData`.
+ *
+ * @param node - The React node to convert
+ * @param options - The components the tree may contain, by name, and the
+ * host tags it may use
+ * @returns The data tree; lists of children are flattened into their parent
+ * @throws TypeError when the tree contains a component missing from the
+ * registry, a tag data may not use, or props `fromData` would reject, such
+ * as event handlers
+ *
+ * @example
+ * toData(div({ className: 'x' }, span('hi')));
+ * // ['div', { className: 'x' }, ['span', 'hi']]
+ */
+export const toData = (
+  node: React.ReactNode,
+  options: DataOptions = {}
+): DataNode => {
+  const names = new Map<unknown, string>();
+  for (const [name, component] of Object.entries(options.components ?? {})) {
+    names.set(component, name);
+    // Elements of `defineComponent` components have its inner component type
+    const inner = (component as { Component?: unknown }).Component;
+    if (inner) {
+      names.set(inner, name);
+    }
+  }
+
+  const childrenOf = (children: React.ReactNode, path: string): DataNode[] =>
+    Array.isArray(children)
+      ? children.flatMap((child, index) =>
+          childrenOf(child as React.ReactNode, `${path}[${index}]`)
+        )
+      : children === undefined
+      ? []
+      : [convert(children, path)];
+
+  const convert = (value: React.ReactNode, path: string): DataNode => {
+    if (value === null || value === undefined || typeof value === 'boolean') {
+      return null;
+    }
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return [FRAGMENT, ...childrenOf(value, path)];
+    }
+    if (!React.isValidElement<Record<string, unknown>>(value)) {
+      return fail(`${describeValue(value)} cannot be serialized`, path);
+    }
+
+    const { type, key } = value;
+    let tag: string;
+    if (type === React.Fragment) {
+      tag = FRAGMENT;
+    } else if (typeof type === 'string') {
+      const error = tagError(type, options.tags);
+      if (error) {
+        fail(error, path);
+      }
+      tag = type;
+    } else {
+      const name = names.get(type);
+      if (name === undefined) {
+        const displayName =
+          (type as { displayName?: string; name?: string }).displayName ??
+          (type as { name?: string }).name;
+        return fail(
+          `Component ${
+            displayName ? `"${displayName}"` : 'without a name'
+          } is not in the components option`,
+          path
+        );
+      }
+      tag = name;
+    }
+
+    const { children, ...rest } = value.props;
+    const props = checkProps(rest, `${path}.props`);
+    if (key !== null) {
+      props.key = key;
+    }
+    return [
+      tag,
+      ...(Object.keys(props).length > 0 ? [props] : []),
+      ...childrenOf(children as React.ReactNode, `${path}.props.children`),
+    ];
+  };
+
+  return convert(node, 'node');
+};
@@ -0,0 +1,50 @@
+// Development-only diagnostics
+//
+// Call sites guard every use with `process.env.NODE_ENV !== 'production'` so
+// bundlers can strip both the check and the message from production builds.
+
+const warned = new Set<string>();
+
+/**
+ * Logs a warning once per distinct message.
+ *
+ * @param message - The warning, prefixed with the library name when logged
+ * @param details - Extra values logged alongside, e.g. the offending items
+ */
+export const warnOnce = (message: string, ...details: unknown[]) => {
+  if (warned.has(message)) {
+    return;
+  }
+  warned.add(message);
+  console.warn(`react-dom-functions: ${message}`, ...details);
+};
+
+/**
+ * Opt-in checks the element functions run in development. All are off by
+ * default, and none run in production builds.
+ */
+export type DevChecks = {
+  /** Warn about invalid HTML nesting, e.g. a `div` inside a `p` */
+  nesting?: boolean;
+  /** Warn about common accessibility problems, e.g. an `img` without `alt` */
+  a11y?: boolean;
+};
+
+export const devChecks: Required<DevChecks> = {
+  nesting: false,
+  a11y: false,
+};
+
+/**
+ * Turns development checks on or off.
+ *
+ * @param checks - The checks to change; others keep their current setting
+ *
+ * @example
+ * if (process.env.NODE_ENV !== 'production') {
+ *   configureDevChecks({ nesting: true, a11y: true });
+ * }
+ */
+export const configureDevChecks = (checks: DevChecks) => {
+  Object.assign(devChecks, checks);
+};
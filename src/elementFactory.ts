@@ -0,0 +1,97 @@
+import React from 'react';
+import { normalizeProps, resolveArguments } from './arguments';
+import { devChecks } from './dev';
+import { ELEMENT_TAGS } from './elementTags';
+import type { PluginOptions, PropsPlugin } from './plugins';
+import type {
+  BaseElementProps,
+  DOMFunctions,
+  ElementFunction,
+  ElementPropsFor,
+  SVGElementFunctionFor,
+  SVGElementPropsFor,
+  SVGTag,
+} from './types';
+import { validateA11y } from './validateA11y';
+import { validateNesting } from './validateNesting';
+
+// Helper function to create element functions
+export const createElement = <Tag extends string, Props = ElementPropsFor<Tag>>(
+  tag: Tag,
+  plugins?: readonly PropsPlugin[]
+): ElementFunction<Props> => {
+  return (
+    propsOrChildren?: Props | React.ReactNode,
+    ...rest: React.ReactNode[]
+  ) => {
+    const [props, children] = resolveArguments<BaseElementProps>(
+      propsOrChildren,
+      rest
+    );
+
+    const element = React.createElement(
+      tag,
+      normalizeProps(props, tag, plugins),
+      ...children
+    );
+
+    if (process.env.NODE_ENV !== 'production') {
+      if (devChecks.nesting) {
+        validateNesting(element);
+      }
+      if (devChecks.a11y) {
+        validateA11y(element);
+      }
+    }
+
+    return element;
+  };
+};
+
+// Helper function to create SVG element functions
+export const createSVGElement = <Tag extends SVGTag>(
+  tag: Tag
+): SVGElementFunctionFor<Tag> =>
+  createElement<Tag, SVGElementPropsFor<Tag>>(tag);
+
+/**
+ * Creates element functions that run their own plugins instead of those set
+ * with `configure`, so a library can process its props without changing the
+ * app's elements. Element functions are named by tag and created on first
+ * access. In development, names that are not element tags, such as
+ * `fragment` or `var_`, throw.
+ *
+ * @param options - The plugins
+ * @returns An element function per tag
+ *
+ * @example
+ * const { div, button } = createDOM({
+ *   plugins: [(props) => ({ 'data-library': 'acme', ...props })],
+ * });
+ */
+export const createDOM = ({ plugins = [] }: PluginOptions): DOMFunctions => {
+  const elements = new Map<string, ElementFunction<BaseElementProps>>();
+  return new Proxy({} as DOMFunctions, {
+    get: (_target, tag) => {
+      // Symbols and `then` are probed by runtimes, e.g. when awaiting
+      if (typeof tag !== 'string' || tag === 'then') {
+        return undefined;
+      }
+      if (
+        process.env.NODE_ENV !== 'production' &&
+        !ELEMENT_TAGS.includes(tag)
+      ) {
+        throw new TypeError(
+          `react-dom-functions: createDOM() has no element function for "${tag}"; use the tag name, e.g. "var" rather than "var_"`
+        );
+      }
+      if (!elements.has(tag)) {
+        elements.set(
+          tag,
+          createElement<string, BaseElementProps>(tag, plugins)
+        );
+      }
+      return elements.get(tag);
+    },
+  });
+};
@@ -0,0 +1,371 @@
+// Element spec data table
+//
+// Single source of truth for the element functions exported from
+// `htmlElements.ts`. After editing this table, regenerate the exports with
+// `npm run generate:elements`.
+//
+// This module must stay free of imports: the generator script loads it on its
+// own, outside the TypeScript build.
+
+export type ElementNamespace = 'html' | 'svg' | 'mathml';
+
+export type ElementSpecEntry = {
+  /** Tag name as written in markup */
+  tag: string;
+  /** Export name, when the tag is not a usable identifier */
+  name?: string;
+  namespace: ElementNamespace;
+  category: string;
+  /** Why the element is deprecated, if it is */
+  deprecated?: string;
+  /** Whether the element is void: it has no end tag and no children */
+  void?: boolean;
+};
+
+type ElementSpecGroup = {
+  namespace: ElementNamespace;
+  category: string;
+  elements: (string | Omit<ElementSpecEntry, 'namespace' | 'category'>)[];
+};
+
+// SVG `a`, `script`, `style` and `title` share their tag with the HTML
+// elements of the same name and are served by those exports.
+const groups: ElementSpecGroup[] = [
+  // HTML
+  { namespace: 'html', category: 'Main root', elements: ['html'] },
+  {
+    namespace: 'html',
+    category: 'Document metadata',
+    elements: [
+      'title',
+      { tag: 'base', void: true },
+      { tag: 'link', void: true },
+      { tag: 'meta', void: true },
+      'style',
+      'head',
+    ],
+  },
+  { namespace: 'html', category: 'Sectioning root', elements: ['body'] },
+  {
+    namespace: 'html',
+    category: 'Content sectioning',
+    elements: [
+      'address',
+      'article',
+      'aside',
+      'footer',
+      'header',
+      'h1',
+      'h2',
+      'h3',
+      'h4',
+      'h5',
+      'h6',
+      'hgroup',
+      'main',
+      'nav',
+      'section',
+      'search',
+    ],
+  },
+  {
+    namespace: 'html',
+    category: 'Text content',
+    elements: [
+      'blockquote',
+      'dd',
+      'div',
+      'dl',
+      'dt',
+      'figcaption',
+      'figure',
+      { tag: 'hr', void: true },
+      'li',
+      'ol',
+      'p',
+      'pre',
+      'ul',
+    ],
+  },
+  {
+    namespace: 'html',
+    category: 'Inline text semantics',
+    elements: [
+      'a',
+      'abbr',
+      'b',
+      'bdi',
+      'bdo',
+      { tag: 'br', void: true },
+      'cite',
+      'code',
+      'data',
+      'dfn',
+      'em',
+      'i',
+      'kbd',
+      'mark',
+      'q',
+      {
+        tag: 'rb',
+        deprecated: 'Obsolete in HTML; put the base text directly in `ruby`.',
+      },
+      'rp',
+      'rt',
+      {
+        tag: 'rtc',
+        deprecated: 'Obsolete in HTML; use one `rt` per base text instead.',
+      },
+      'ruby',
+      's',
+      'samp',
+      'small',
+      'span',
+      'strong',
+      'sub',
+      'sup',
+      'time',
+      'u',
+      { tag: 'var', name: 'var_' },
+      { tag: 'wbr', void: true },
+    ],
+  },
+  {
+    namespace: 'html',
+    category: 'Image and multimedia',
+    elements: [
+      { tag: 'area', void: true },
+      'audio',
+      { tag: 'img', void: true },
+      'map',
+      { tag: 'track', void: true },
+      'video',
+    ],
+  },
+  {
+    namespace: 'html',
+    category: 'Embedded content',
+    elements: [
+      { tag: 'embed', void: true },
+      'iframe',
+      'object',
+      {
+        tag: 'param',
+        void: true,
+        deprecated: 'Obsolete in HTML; use the `data` attribute of `object`.',
+      },
+      'picture',
+      { tag: 'source', void: true },
+    ],
+  },
+  {
+    namespace: 'html',
+    category: 'Scripting',
+    elements: ['canvas', 'noscript', 'script'],
+  },
+  {
+    namespace: 'html',
+    category: 'Demarcating edits',
+    elements: ['del', 'ins'],
+  },
+  {
+    namespace: 'html',
+    category: 'Table content',
+    elements: [
+      'caption',
+      { tag: 'col', void: true },
+      'colgroup',
+      'table',
+      'tbody',
+      'td',
+      'tfoot',
+      'th',
+      'thead',
+      'tr',
+    ],
+  },
+  {
+    namespace: 'html',
+    category: 'Forms',
+    elements: [
+      'button',
+      'datalist',
+      'fieldset',
+      'form',
+      { tag: 'input', void: true },
+      'label',
+      'legend',
+      'meter',
+      'optgroup',
+      'option',
+      'output',
+      'progress',
+      'select',
+      'textarea',
+    ],
+  },
+  {
+    namespace: 'html',
+    category: 'Interactive',
+    elements: [
+      'details',
+      'dialog',
+      'menu',
+      {
+        tag: 'menuitem',
+        deprecated: 'Obsolete in HTML and unsupported by browsers.',
+      },
+      'summary',
+    ],
+  },
+  {
+    namespace: 'html',
+    category: 'Web Components',
+    elements: ['slot', 'template'],
+  },
+
+  // SVG
+  {
+    namespace: 'svg',
+    category: 'SVG structure',
+    elements: [
+      'svg',
+      'g',
+      'defs',
+      'symbol',
+      'use',
+      { tag: 'switch', name: 'switch_' },
+    ],
+  },
+  {
+    namespace: 'svg',
+    category: 'SVG shapes',
+    elements: [
+      'circle',
+      'rect',
+      'path',
+      'line',
+      'polygon',
+      'polyline',
+      'ellipse',
+    ],
+  },
+  {
+    namespace: 'svg',
+    category: 'SVG text',
+    elements: ['text', 'tspan', 'textPath'],
+  },
+  {
+    namespace: 'svg',
+    category: 'SVG paint servers',
+    elements: ['linearGradient', 'radialGradient', 'stop', 'pattern'],
+  },
+  {
+    namespace: 'svg',
+    category: 'SVG clipping, masking and markers',
+    elements: ['clipPath', 'mask', 'marker'],
+  },
+  {
+    namespace: 'svg',
+    category: 'SVG embedded content',
+    elements: ['image', 'foreignObject', 'view'],
+  },
+  {
+    namespace: 'svg',
+    category: 'SVG descriptive',
+    elements: ['desc', 'metadata'],
+  },
+  {
+    namespace: 'svg',
+    category: 'SVG filters',
+    elements: [
+      'filter',
+      'feBlend',
+      'feColorMatrix',
+      'feComponentTransfer',
+      'feComposite',
+      'feConvolveMatrix',
+      'feDiffuseLighting',
+      'feDisplacementMap',
+      'feDistantLight',
+      'feDropShadow',
+      'feFlood',
+      'feFuncA',
+      'feFuncB',
+      'feFuncG',
+      'feFuncR',
+      'feGaussianBlur',
+      'feImage',
+      'feMerge',
+      'feMergeNode',
+      'feMorphology',
+      'feOffset',
+      'fePointLight',
+      'feSpecularLighting',
+      'feSpotLight',
+      'feTile',
+      'feTurbulence',
+    ],
+  },
+  {
+    namespace: 'svg',
+    category: 'SVG animation',
+    elements: ['animate', 'animateMotion', 'animateTransform', 'mpath', 'set'],
+  },
+
+  // MathML
+  {
+    namespace: 'mathml',
+    category: 'MathML',
+    elements: [
+      'math',
+      'mrow',
+      'mfrac',
+      'msqrt',
+      'mroot',
+      'msub',
+      'msup',
+      'msubsup',
+      'munder',
+      'mover',
+      'munderover',
+      'mmultiscripts',
+      'mprescripts',
+      'mtable',
+      'mtr',
+      'mtd',
+      'maction',
+      'merror',
+      'mpadded',
+      'mphantom',
+      'mspace',
+      'mstyle',
+      'ms',
+      'mtext',
+      'mn',
+      'mo',
+      'mi',
+      'semantics',
+      'annotation',
+      { tag: 'annotation-xml', name: 'annotationXml' },
+    ],
+  },
+];
+
+/**
+ * Every element the library exports a function for, in export order.
+ */
+export const elementSpec: readonly ElementSpecEntry[] = groups.flatMap(
+  ({ namespace, category, elements }) =>
+    elements.map((element) =>
+      typeof element === 'string'
+        ? { tag: element, namespace, category }
+        : { ...element, namespace, category }
+    )
+);
+
+/**
+ * The export name of a spec entry.
+ */
+export const elementExportName = (entry: ElementSpecEntry) =>
+  entry.name ?? entry.tag;
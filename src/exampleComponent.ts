@@ -1,5 +1,5 @@
 import { div, span, h2 } from './htmlElements';
-import { DOMFC } from './types';
+import { defineComponent } from './utils';
 
 // Improved: Add prop types, better structure, and more realistic usage
 
@@ -9,10 +9,11 @@ export type LabeledValueProps = {
   highlight?: boolean;
 };
 
-export const LabeledValue: DOMFC<LabeledValueProps> = (
-  { label, value, highlight = false },
-  ...children
-) => {
+// Callable as LabeledValue({ label, value }, ...children) or usable as a component type
+export const LabeledValue = defineComponent(function LabeledValue(
+  { label, value, highlight = false }: LabeledValueProps,
+  children
+) {
   return div(
     {
       className: highlight ? 'labeled-value--highlight' : 'labeled-value',
@@ -20,22 +21,22 @@ export const LabeledValue: DOMFC<LabeledValueProps> = (
     },
     h2({}, label),
     span({ className: 'labeled-value__content' }, value),
-    children
+    ...children
   );
-};
+});
 
 // Improved: Accepts a title and renders children in a section
 export type SectionProps = {
   title?: string;
 };
 
-export const Section: DOMFC<SectionProps> = (
-  { title = 'Default Section' },
-  ...children
-) => {
+export const Section = defineComponent(function Section(
+  { title = 'Default Section' }: SectionProps,
+  children
+) {
   return div(
     { className: 'section' },
     h2({}, title),
-    div({ className: 'section__content' }, children)
+    div({ className: 'section__content' }, ...children)
   );
-};
+});
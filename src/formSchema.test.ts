@@ -0,0 +1,267 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import {
+  formFromSchema,
+  validateForm,
+  type FormOptions,
+  type FormSchema,
+} from './formSchema';
+import { button, div, span } from './htmlElements';
+import { defineComponent } from './utils';
+
+type Account = {
+  name: string;
+  email: string;
+  role: string;
+  plan: string;
+  seats: number;
+  company?: string;
+  newsletter: boolean;
+  bio: string;
+};
+
+const schema: FormSchema<Account> = [
+  {
+    kind: 'text',
+    name: 'name',
+    label: 'Name',
+    description: 'As shown on invoices',
+    required: true,
+    minLength: 2,
+  },
+  { kind: 'email', name: 'email', label: 'Email', required: true },
+  {
+    kind: 'select',
+    name: 'role',
+    label: 'Role',
+    options: [
+      { value: 'admin', label: 'Administrator' },
+      { value: 'editor', label: 'Editor' },
+    ],
+  },
+  {
+    kind: 'group',
+    legend: 'Billing',
+    fields: [
+      { kind: 'radio', name: 'plan', label: 'Plan', options: ['free', 'team'] },
+      {
+        kind: 'number',
+        name: 'seats',
+        label: 'Seats',
+        min: 1,
+        visible: (values) => values.plan === 'team',
+      },
+      {
+        kind: 'text',
+        name: 'company',
+        label: 'Company',
+        visible: (values) => values.plan === 'team',
+        validate: (value) =>
+          value?.trim() === value ? undefined : 'Remove the extra spaces.',
+      },
+      {
+        kind: 'output',
+        name: 'total',
+        label: 'Total',
+        from: ['plan', 'seats'],
+        value: ({ plan, seats }) => (plan === 'team' ? `$${seats * 8}` : '$0'),
+      },
+    ],
+  },
+  { kind: 'checkbox', name: 'newsletter', label: 'Send me news' },
+  { kind: 'textarea', name: 'bio', label: 'Bio', rows: 3, maxLength: 10 },
+];
+
+const initial: Account = {
+  name: '',
+  email: '',
+  role: 'editor',
+  plan: 'free',
+  seats: 1,
+  newsletter: false,
+  bio: '',
+};
+
+const AccountForm = defineComponent(
+  (props: Omit<FormOptions<Account>, 'value' | 'onChange'>) => {
+    const [value, setValue] = React.useState(initial);
+    return formFromSchema(
+      schema,
+      { ...props, value, onChange: setValue },
+      button({ type: 'submit' }, 'Save')
+    );
+  }
+);
+
+describe('formFromSchema', () => {
+  test('connects labels and descriptions to their controls', () => {
+    const { container } = render(AccountForm());
+
+    expect(screen.getByLabelText('Name')).toHaveAttribute('type', 'text');
+    expect(screen.getByLabelText('Name')).toHaveAccessibleDescription(
+      'As shown on invoices'
+    );
+    expect(screen.getByLabelText('Role')).toHaveValue('editor');
+    expect(
+      screen.getByRole('option', { name: 'Administrator' })
+    ).toHaveAttribute('value', 'admin');
+    expect(screen.getByLabelText('Send me news')).not.toBeChecked();
+    expect(screen.getByLabelText('Bio').tagName).toBe('TEXTAREA');
+    expect(screen.getByRole('group', { name: 'Billing' })).toBeInTheDocument();
+    expect(screen.getByRole('group', { name: 'Plan' })).toBeInTheDocument();
+    expect(screen.getByLabelText('free')).toBeChecked();
+    expect(screen.getByLabelText('Total')).toHaveTextContent('$0');
+    expect(container.querySelector('form')).toHaveAttribute('novalidate');
+  });
+
+  test('connects labels to their controls without React.useId', () => {
+    jest.isolateModules(() => {
+      jest.doMock('react', () => ({
+        ...React,
+        useId: undefined,
+      }));
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const legacy: typeof import('./formSchema') = require('./formSchema');
+      const Form = () =>
+        legacy.formFromSchema([{ kind: 'text', name: 'name', label: 'Name' }], {
+          value: { name: '' },
+        });
+
+      render(div(React.createElement(Form), React.createElement(Form)));
+
+      const [first, second] = screen.getAllByLabelText('Name');
+      expect(first!.id).toMatch(/^form-\d+-name$/);
+      expect(first!.id).not.toBe(second!.id);
+    });
+    jest.dontMock('react');
+  });
+
+  test('shows fields conditionally and computes outputs', () => {
+    render(AccountForm());
+    expect(screen.queryByLabelText('Seats')).toBeNull();
+
+    fireEvent.click(screen.getByLabelText('team'));
+    fireEvent.change(screen.getByLabelText('Seats'), {
+      target: { value: '3' },
+    });
+
+    expect(screen.getByLabelText('Company')).toBeInTheDocument();
+    expect(screen.getByLabelText('Total')).toHaveTextContent('$24');
+    expect(screen.getByLabelText('Total')).toHaveAttribute(
+      'for',
+      `${screen.getByRole('group', { name: 'Plan' }).id} ${
+        screen.getByLabelText('Seats').id
+      }`
+    );
+  });
+
+  test('validates on blur and submit, and submits valid values', () => {
+    const onSubmit = jest.fn();
+    render(AccountForm({ onSubmit }));
+
+    fireEvent.blur(screen.getByLabelText('Email'));
+    expect(screen.getByLabelText('Email')).toHaveAccessibleDescription(
+      'Email is required.'
+    );
+    expect(screen.queryByText('Name is required.')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(screen.getByLabelText('Name')).toHaveAttribute(
+      'aria-invalid',
+      'true'
+    );
+    expect(screen.getByLabelText('Name')).toHaveAccessibleDescription(
+      'As shown on invoices Name is required.'
+    );
+
+    fireEvent.change(screen.getByLabelText('Name'), {
+      target: { value: 'Ada' },
+    });
+    fireEvent.change(screen.getByLabelText('Email'), {
+      target: { value: 'ada@example.com' },
+    });
+    fireEvent.click(screen.getByLabelText('Send me news'));
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(screen.getByLabelText('Name')).not.toHaveAttribute('aria-invalid');
+    expect(onSubmit).toHaveBeenCalledWith({
+      ...initial,
+      name: 'Ada',
+      email: 'ada@example.com',
+      newsletter: true,
+    });
+  });
+
+  test('renders field kinds with custom renderers and shows outside errors', () => {
+    render(
+      AccountForm({
+        errors: { email: 'Email is already taken.' },
+        renderers: {
+          checkbox: ({ field, controlProps, value, setValue }) =>
+            div(
+              { className: 'switch' },
+              button(
+                {
+                  ...controlProps,
+                  type: 'button',
+                  role: 'switch',
+                  'aria-checked': value === true,
+                  onClick: () => setValue(!value),
+                },
+                field.label
+              )
+            ),
+          textarea: ({ renderDefault }) =>
+            div({ className: 'wide' }, renderDefault(), span('Markdown')),
+        },
+      })
+    );
+
+    fireEvent.click(screen.getByRole('switch', { name: 'Send me news' }));
+    expect(screen.getByRole('switch')).toHaveAttribute('aria-checked', 'true');
+    expect(screen.getByLabelText('Bio').closest('.wide')).toHaveTextContent(
+      'Markdown'
+    );
+    expect(screen.getByLabelText('Email')).toHaveAccessibleDescription(
+      'Email is already taken.'
+    );
+  });
+});
+
+describe('validateForm', () => {
+  test('checks visible fields against their rules', () => {
+    expect(
+      validateForm(schema, {
+        ...initial,
+        name: 'A',
+        email: 'ada',
+        plan: 'team',
+        seats: 0,
+        company: ' Acme',
+        bio: 'A long biography',
+      })
+    ).toEqual({
+      name: 'Name must be at least 2 characters.',
+      email: 'Email must be an email address.',
+      seats: 'Seats must be at least 1.',
+      company: 'Remove the extra spaces.',
+      bio: 'Bio must be at most 10 characters.',
+    });
+    expect(
+      validateForm(schema, { ...initial, name: 'Ada', email: 'a@b.c' })
+    ).toEqual({});
+  });
+
+  test('types field kinds from the values', () => {
+    const invalid: FormSchema<Account> = [
+      // @ts-expect-error: newsletter is a boolean
+      { kind: 'text', name: 'newsletter', label: 'News' },
+      // @ts-expect-error: seats is a number
+      { kind: 'select', name: 'seats', label: 'Seats', options: ['1'] },
+      // @ts-expect-error: not a field of the values
+      { kind: 'text', name: 'phone', label: 'Phone' },
+    ];
+    expect(invalid).toHaveLength(3);
+  });
+});
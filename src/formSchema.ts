@@ -0,0 +1,555 @@
+import React from 'react';
+import {
+  div,
+  fieldset,
+  form,
+  input,
+  label,
+  legend,
+  option,
+  output,
+  p,
+  select,
+  textarea,
+} from './htmlElements';
+import type { Binding } from './types';
+
+// Schema-driven forms
+//
+// `formFromSchema` renders a controlled form from a list of fields. Field
+// kinds are typed from the form's values: a boolean is a checkbox, a number
+// a number or range input, a string array a multiple select, and a string
+// any of the text kinds, a select or a radio group. Errors show once a field
+// is left or the form is submitted.
+
+/**
+ * An option of a select or radio field: a value used as its own label, or
+ * a value with a label.
+ */
+export type FieldOption =
+  | string
+  | { value: string; label: string; disabled?: boolean };
+
+type FieldCommon<Values, Name, Value> = {
+  name: Name;
+  label: string;
+  /** Help text, announced with the control */
+  description?: string;
+  required?: boolean;
+  disabled?: boolean;
+  /** Renders and validates the field only when it returns true */
+  visible?: (values: Values) => boolean;
+  /** Custom validation, run after the built-in rules; returns the message */
+  validate?: (value: Value, values: Values) => string | undefined;
+};
+
+type TextRules = {
+  placeholder?: string;
+  minLength?: number;
+  maxLength?: number;
+};
+
+// The field kinds for a value type
+type FieldKinds<Value> = [Value] extends [boolean]
+  ? { kind: 'checkbox' }
+  : [Value] extends [number]
+  ? { kind: 'number' | 'range'; min?: number; max?: number; step?: number }
+  : [Value] extends [readonly string[]]
+  ? { kind: 'select'; multiple: true; options: readonly FieldOption[] }
+  : [Value] extends [string]
+  ?
+      | (TextRules & {
+          kind:
+            | 'text'
+            | 'email'
+            | 'password'
+            | 'search'
+            | 'tel'
+            | 'url'
+            | 'date'
+            | 'time';
+          /** A format the value must match */
+          pattern?: RegExp;
+        })
+      | (TextRules & { kind: 'textarea'; rows?: number })
+      | { kind: 'select'; multiple?: false; options: readonly FieldOption[] }
+      | { kind: 'radio'; options: readonly FieldOption[] }
+  : never;
+
+/**
+ * A field bound to one of the form's values.
+ */
+export type ValueField<Values> = {
+  [Name in keyof Values & string]: FieldCommon<Values, Name, Values[Name]> &
+    FieldKinds<NonNullable<Values[Name]>>;
+}[keyof Values & string];
+
+/**
+ * A read-only `output` showing a value computed from the form's values.
+ */
+export type OutputField<Values> = {
+  kind: 'output';
+  name: string;
+  label: string;
+  value: (values: Values) => React.ReactNode;
+  /** The fields the value is computed from */
+  from?: readonly (keyof Values & string)[];
+  visible?: (values: Values) => boolean;
+};
+
+/**
+ * Fields grouped in a `fieldset` with a `legend`.
+ */
+export type FieldGroup<Values> = {
+  kind: 'group';
+  legend: string;
+  fields: FormSchema<Values>;
+  visible?: (values: Values) => boolean;
+};
+
+export type FieldSchema<Values> =
+  | ValueField<Values>
+  | OutputField<Values>
+  | FieldGroup<Values>;
+
+/**
+ * The fields of a form, in order.
+ */
+export type FormSchema<Values> = readonly FieldSchema<Values>[];
+
+/**
+ * Every field kind that renders a control.
+ */
+export type FieldKind =
+  | 'text'
+  | 'email'
+  | 'password'
+  | 'search'
+  | 'tel'
+  | 'url'
+  | 'date'
+  | 'time'
+  | 'textarea'
+  | 'number'
+  | 'range'
+  | 'checkbox'
+  | 'select'
+  | 'radio'
+  | 'output';
+
+/**
+ * The props of the control rendered for a field, ready to pass to an
+ * element function.
+ */
+export type FieldControlProps = {
+  id: string;
+  name: string;
+  required?: boolean;
+  disabled?: boolean;
+  'aria-invalid'?: boolean;
+  'aria-describedby'?: string;
+  onBlur: () => void;
+};
+
+/**
+ * What a custom field renderer receives.
+ */
+export type FieldRenderProps<Field> = {
+  field: Field;
+  /** The control's id, which the default label points to */
+  id: string;
+  value: unknown;
+  setValue: (value: unknown) => void;
+  /** The message to show, once the field is left or the form submitted */
+  error: string | undefined;
+  controlProps: FieldControlProps;
+  /** Renders the field as it would be without the custom renderer */
+  renderDefault: () => React.ReactNode;
+};
+
+/**
+ * Custom rendering by field kind.
+ */
+export type FieldRenderers<Values> = {
+  [Kind in FieldKind]?: (
+    props: FieldRenderProps<Extract<FieldSchema<Values>, { kind: Kind }>>
+  ) => React.ReactNode;
+};
+
+export type FormOptions<Values> = {
+  /** The current values */
+  value: Values;
+  onChange?: (value: Values, name: keyof Values & string) => void;
+  /** Called with the values when the form is submitted without errors */
+  onSubmit?: (value: Values) => void;
+  /** Errors from elsewhere, e.g. the server, shown before the form's own */
+  errors?: Partial<Record<keyof Values & string, string>>;
+  renderers?: FieldRenderers<Values>;
+};
+
+// A binding every control accepts, for the value of any field kind
+type AnyBinding = Binding<string> &
+  Binding<number> &
+  Binding<boolean> &
+  Binding<string[]>;
+
+// The loose shape every field kind fits, for the implementation
+type AnyField = {
+  kind: FieldKind | 'group';
+  name: string;
+  label: string;
+  legend: string;
+  description?: string;
+  required?: boolean;
+  disabled?: boolean;
+  visible?: (values: Record<string, unknown>) => boolean;
+  validate?: (
+    value: unknown,
+    values: Record<string, unknown>
+  ) => string | undefined;
+  options: readonly FieldOption[];
+  multiple?: boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  rows?: number;
+  placeholder?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  fields: readonly AnyField[];
+  from?: readonly string[];
+  value: (values: Record<string, unknown>) => React.ReactNode;
+};
+
+const isVisible = (field: AnyField, values: Record<string, unknown>) =>
+  !field.visible || field.visible(values);
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  value === false ||
+  Number.isNaN(value) ||
+  (Array.isArray(value) && value.length === 0);
+
+const validateField = (field: AnyField, values: Record<string, unknown>) => {
+  const value = values[field.name];
+  const { label } = field;
+  if (isEmpty(value)) {
+    return field.required ? `${label} is required.` : undefined;
+  }
+  if (typeof value === 'number') {
+    if (field.min !== undefined && value < field.min) {
+      return `${label} must be at least ${field.min}.`;
+    }
+    if (field.max !== undefined && value > field.max) {
+      return `${label} must be at most ${field.max}.`;
+    }
+  }
+  if (typeof value === 'string') {
+    if (field.minLength !== undefined && value.length < field.minLength) {
+      return `${label} must be at least ${field.minLength} characters.`;
+    }
+    if (field.maxLength !== undefined && value.length > field.maxLength) {
+      return `${label} must be at most ${field.maxLength} characters.`;
+    }
+    if (field.kind === 'email' && !/^[^\s@]+@[^\s@]+$/.test(value)) {
+      return `${label} must be an email address.`;
+    }
+    if (field.pattern && !field.pattern.test(value)) {
+      return `${label} is not in the expected format.`;
+    }
+  }
+  return field.validate?.(value, values);
+};
+
+/**
+ * Validates values against a schema, like `formFromSchema` does: hidden
+ * fields are skipped, and the first failing rule of each field gives its
+ * message.
+ *
+ * @param schema - The form's fields
+ * @param values - The values to check
+ * @returns The error messages by field name; empty when the values are valid
+ *
+ * @example
+ * const errors = validateForm(schema, body);
+ * if (Object.keys(errors).length) {
+ *   return response.status(422).json(errors);
+ * }
+ */
+export const validateForm = <Values>(
+  schema: FormSchema<Values>,
+  values: Values
+): Partial<Record<keyof Values & string, string>> => {
+  const errors: Record<string, string> = {};
+  const visit = (fields: readonly AnyField[]) => {
+    for (const field of fields) {
+      const all = values as Record<string, unknown>;
+      if (!isVisible(field, all)) {
+        continue;
+      }
+      if (field.kind === 'group') {
+        visit(field.fields);
+      } else if (field.kind !== 'output') {
+        const error = validateField(field, all);
+        if (error) {
+          errors[field.name] = error;
+        }
+      }
+    }
+  };
+  visit(schema as unknown as readonly AnyField[]);
+  return errors as Partial<Record<keyof Values & string, string>>;
+};
+
+const optionValue = (item: FieldOption) =>
+  typeof item === 'string' ? item : item.value;
+
+const optionLabel = (item: FieldOption) =>
+  typeof item === 'string' ? item : item.label;
+
+type SchemaFormProps = {
+  schema: readonly AnyField[];
+  options: FormOptions<Record<string, unknown>>;
+  children?: React.ReactNode;
+};
+
+let nextFormId = 0;
+
+// React.useId needs React 18; older versions number the forms instead, so
+// their ids may differ between a server render and hydration
+const useFormId: () => string =
+  React.useId ?? (() => React.useState(() => `form-${nextFormId++}`)[0]);
+
+const SchemaForm = ({ schema, options, children }: SchemaFormProps) => {
+  const { value: values, onChange, onSubmit, renderers = {} } = options;
+  const prefix = useFormId();
+  const [touched, setTouched] = React.useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+  const [submitted, setSubmitted] = React.useState(false);
+  const errors = validateForm(schema as FormSchema<unknown>, values) as Record<
+    string,
+    string
+  >;
+
+  const renderField = (field: AnyField): React.ReactNode => {
+    if (!isVisible(field, values)) {
+      return null;
+    }
+    if (field.kind === 'group') {
+      return fieldset(legend(field.legend), ...field.fields.map(renderField));
+    }
+
+    const { kind, name } = field;
+    const id = `${prefix}-${name}`;
+    const descriptionId = field.description && `${id}-description`;
+    const error =
+      (options.errors as Record<string, string> | undefined)?.[name] ??
+      (submitted || touched.has(name) ? errors[name] : undefined);
+    const errorId = error && `${id}-error`;
+    const value = values[name];
+    const setValue = (next: unknown) =>
+      onChange?.({ ...values, [name]: next }, name);
+    const controlProps: FieldControlProps = {
+      id,
+      name,
+      required: field.required,
+      disabled: field.disabled,
+      'aria-invalid': error ? true : undefined,
+      'aria-describedby':
+        [descriptionId, errorId].filter(Boolean).join(' ') || undefined,
+      onBlur: () =>
+        setTouched((current) =>
+          current.has(name) ? current : new Set(current).add(name)
+        ),
+    };
+    const bind = [value, setValue] as unknown as AnyBinding;
+
+    const renderControl = () => {
+      switch (kind) {
+        case 'output':
+          return [
+            label({ htmlFor: id }, field.label),
+            output(
+              {
+                id,
+                name,
+                htmlFor: field.from
+                  ?.map((source) => `${prefix}-${source}`)
+                  .join(' '),
+              },
+              field.value(values)
+            ),
+          ];
+        case 'checkbox':
+          return [
+            input({ ...controlProps, type: 'checkbox', bind }),
+            label({ htmlFor: id }, field.label),
+          ];
+        case 'radio':
+          // The group is labelled by its legend; each radio by its option
+          return [
+            fieldset(
+              {
+                id,
+                'aria-invalid': controlProps['aria-invalid'],
+                'aria-describedby': controlProps['aria-describedby'],
+              },
+              legend(field.label),
+              ...field.options.map((item, index) =>
+                label(
+                  input({
+                    id: `${id}-${index}`,
+                    name,
+                    required: field.required,
+                    onBlur: controlProps.onBlur,
+                    type: 'radio',
+                    value: optionValue(item),
+                    disabled:
+                      field.disabled ||
+                      (typeof item === 'object' && item.disabled),
+                    bind,
+                  }),
+                  ` ${optionLabel(item)}`
+                )
+              )
+            ),
+          ];
+        case 'select':
+          return [
+            label({ htmlFor: id }, field.label),
+            select(
+              { ...controlProps, multiple: field.multiple, bind },
+              ...field.options.map((item) =>
+                option(
+                  {
+                    value: optionValue(item),
+                    disabled: typeof item === 'object' && item.disabled,
+                  },
+                  optionLabel(item)
+                )
+              )
+            ),
+          ];
+        case 'textarea':
+          return [
+            label({ htmlFor: id }, field.label),
+            textarea({
+              ...controlProps,
+              rows: field.rows,
+              placeholder: field.placeholder,
+              minLength: field.minLength,
+              maxLength: field.maxLength,
+              bind,
+            }),
+          ];
+        default:
+          return [
+            label({ htmlFor: id }, field.label),
+            input({
+              ...controlProps,
+              type: kind,
+              placeholder: field.placeholder,
+              min: field.min,
+              max: field.max,
+              step: field.step,
+              minLength: field.minLength,
+              maxLength: field.maxLength,
+              pattern: field.pattern?.source,
+              bind,
+            }),
+          ];
+      }
+    };
+
+    const renderDefault = () =>
+      div(
+        { className: 'field', data: { field: name } },
+        ...renderControl(),
+        descriptionId &&
+          p(
+            { id: descriptionId, className: 'field-description' },
+            field.description
+          ),
+        errorId && p({ id: errorId, className: 'field-error' }, error)
+      );
+
+    const render = renderers[kind] as
+      | ((props: FieldRenderProps<AnyField>) => React.ReactNode)
+      | undefined;
+    return render
+      ? render({
+          field,
+          id,
+          value,
+          setValue,
+          error,
+          controlProps,
+          renderDefault,
+        })
+      : renderDefault();
+  };
+
+  return form(
+    {
+      noValidate: true,
+      onSubmit: (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        setSubmitted(true);
+        if (Object.keys(errors).length === 0) {
+          onSubmit?.(values);
+        }
+      },
+    },
+    ...schema.map(renderField),
+    ...React.Children.toArray(children)
+  );
+};
+
+/**
+ * Renders a controlled form from a schema of fields, with labels, help
+ * texts and error messages connected to their controls through `htmlFor`
+ * and `aria-describedby`.
+ *
+ * Each field is validated by its rules (`required`, `min`, `max`,
+ * `minLength`, `maxLength`, `pattern`, email format) and then its `validate`
+ * function. Errors show once a field is left or the form is submitted, and
+ * `onSubmit` is only called when there are none. Hidden fields are neither
+ * rendered nor validated. The browser's own validation messages are turned
+ * off, so the form's messages are the only ones shown.
+ *
+ * @param schema - The fields, in order
+ * @param options - The values, handlers, extra errors and custom renderers
+ * @param children - Rendered after the fields, e.g. the submit button
+ * @returns The form element
+ *
+ * @example
+ * const schema: FormSchema<User> = [
+ *   { kind: 'text', name: 'name', label: 'Name', required: true },
+ *   { kind: 'email', name: 'email', label: 'Email', required: true },
+ *   { kind: 'select', name: 'role', label: 'Role', options: ['admin', 'editor'] },
+ *   { kind: 'checkbox', name: 'active', label: 'Active' },
+ * ];
+ *
+ * formFromSchema(
+ *   schema,
+ *   { value: user, onChange: setUser, onSubmit: save },
+ *   button({ type: 'submit' }, 'Save')
+ * );
+ */
+export const formFromSchema = <Values>(
+  schema: FormSchema<Values>,
+  options: FormOptions<Values>,
+  ...children: React.ReactNode[]
+): React.ReactElement =>
+  React.createElement(
+    SchemaForm,
+    {
+      schema: schema as unknown as readonly AnyField[],
+      options: options as unknown as FormOptions<Record<string, unknown>>,
+    },
+    ...children
+  );
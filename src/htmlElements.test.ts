@@ -1,15 +1,25 @@
 import { render } from '@testing-library/react';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
 import * as elements from './htmlElements';
+import { elementExportName, elementSpec } from './elementSpec';
+import { ELEMENT_TAGS } from './elementTags';
+import type { DivProps } from './types';
+import { VOID_ELEMENTS } from './voidElements';
 
 describe('HTML Elements', () => {
   // Test all exported elements exist
   const expectedElements = [
+    // Main root and sectioning root elements
+    'html',
+    'body',
     // Document metadata elements
     'title',
     'base',
     'link',
     'meta',
     'style',
+    'head',
     // Content sectioning elements
     'address',
     'article',
@@ -26,6 +36,7 @@ describe('HTML Elements', () => {
     'main',
     'nav',
     'section',
+    'search',
     // Text content elements
     'blockquote',
     'dd',
@@ -128,8 +139,13 @@ describe('HTML Elements', () => {
     // Web Components elements
     'slot',
     'template',
-    // SVG and MathML elements
+    // SVG elements
     'svg',
+    'g',
+    'defs',
+    'symbol',
+    'use',
+    'switch_',
     'circle',
     'rect',
     'path',
@@ -137,9 +153,52 @@ describe('HTML Elements', () => {
     'polygon',
     'polyline',
     'ellipse',
-    'g',
     'text',
     'tspan',
+    'textPath',
+    'linearGradient',
+    'radialGradient',
+    'stop',
+    'pattern',
+    'clipPath',
+    'mask',
+    'marker',
+    'image',
+    'foreignObject',
+    'view',
+    'desc',
+    'metadata',
+    'filter',
+    'feBlend',
+    'feColorMatrix',
+    'feComponentTransfer',
+    'feComposite',
+    'feConvolveMatrix',
+    'feDiffuseLighting',
+    'feDisplacementMap',
+    'feDistantLight',
+    'feDropShadow',
+    'feFlood',
+    'feFuncA',
+    'feFuncB',
+    'feFuncG',
+    'feFuncR',
+    'feGaussianBlur',
+    'feImage',
+    'feMerge',
+    'feMergeNode',
+    'feMorphology',
+    'feOffset',
+    'fePointLight',
+    'feSpecularLighting',
+    'feSpotLight',
+    'feTile',
+    'feTurbulence',
+    'animate',
+    'animateMotion',
+    'animateTransform',
+    'mpath',
+    'set',
     // MathML elements
     'math',
     'mrow',
@@ -153,6 +212,7 @@ describe('HTML Elements', () => {
     'mover',
     'munderover',
     'mmultiscripts',
+    'mprescripts',
     'mtable',
     'mtr',
     'mtd',
@@ -167,6 +227,9 @@ describe('HTML Elements', () => {
     'mn',
     'mo',
     'mi',
+    'semantics',
+    'annotation',
+    'annotationXml',
     // Fragment
     'fragment',
   ];
@@ -185,6 +248,74 @@ describe('HTML Elements', () => {
     });
   });
 
+  describe('Element spec', () => {
+    const specNames = elementSpec.map(elementExportName);
+
+    test('every known element is in the spec', () => {
+      const missing = expectedElements.filter(
+        (name) => name !== 'fragment' && !specNames.includes(name)
+      );
+      expect(missing).toEqual([]);
+    });
+
+    test('every spec entry is exported and creates its tag', () => {
+      elementSpec.forEach((entry) => {
+        const element = elements[
+          elementExportName(entry) as keyof typeof elements
+        ]() as React.ReactElement;
+        expect(element.type).toBe(entry.tag);
+      });
+    });
+
+    test('exports nothing outside the spec besides fragment', () => {
+      const extra = Object.keys(elements).filter(
+        (name) => name !== 'fragment' && !specNames.includes(name)
+      );
+      expect(extra).toEqual([]);
+    });
+
+    test('lists the void elements of the spec', () => {
+      expect([...VOID_ELEMENTS].sort()).toEqual([
+        'area',
+        'base',
+        'br',
+        'col',
+        'embed',
+        'hr',
+        'img',
+        'input',
+        'link',
+        'meta',
+        'param',
+        'source',
+        'track',
+        'wbr',
+      ]);
+      expect(VOID_ELEMENTS).toEqual(
+        elementSpec.filter((entry) => entry.void).map((entry) => entry.tag)
+      );
+    });
+
+    test('lists every tag of the spec', () => {
+      expect(ELEMENT_TAGS).toEqual(elementSpec.map((entry) => entry.tag));
+    });
+
+    test('marks exactly the deprecated elements @deprecated', () => {
+      const source = readFileSync(
+        resolve(process.cwd(), 'src/htmlElements.ts'),
+        'utf8'
+      );
+      elementSpec.forEach((entry) => {
+        const marked = new RegExp(
+          `/\\*\\* @deprecated [^\\n]*\\*/\\nexport const ${elementExportName(
+            entry
+          )} =`
+        ).test(source);
+        expect([entry.tag, marked]).toEqual([entry.tag, !!entry.deprecated]);
+      });
+    });
+  });
+
   describe('Basic element creation', () => {
     test('creates div with children', () => {
       const element = elements.div('Hello World');
@@ -299,6 +430,43 @@ describe('HTML Elements', () => {
       const svg = container.firstChild as SVGElement;
       expect(svg.querySelector('rect')).toBeTruthy();
     });
+
+    test('types SVG attributes and handlers per element', () => {
+      const handleClick = jest.fn((event: React.MouseEvent<SVGPathElement>) =>
+        event.currentTarget.getTotalLength()
+      );
+      const element = elements.svg(
+        { viewBox: '0 0 24 24', className: ['icon', { 'icon--active': true }] },
+        elements.defs(
+          elements.linearGradient(
+            { id: 'fade', x1: 0, x2: 1 },
+            elements.stop({ offset: '0%', stopColor: 'red' })
+          )
+        ),
+        elements.path({
+          d: 'M0 0L24 24',
+          fill: 'url(#fade)',
+          fillRule: 'evenodd',
+          strokeWidth: 2,
+          onClick: handleClick,
+        }),
+        elements.use({ xlinkHref: '#fade' })
+      );
+
+      // @ts-expect-error - misspelled attribute
+      elements.circle({ strokWidth: 2 });
+      // @ts-expect-error - fillRule only accepts SVG fill rules
+      elements.path({ fillRule: 'odd' });
+      // @ts-expect-error - handlers receive events for the SVG element
+      elements.circle({ onClick: (e: React.MouseEvent<HTMLDivElement>) => e });
+
+      const { container } = render(element);
+      const svg = container.firstChild as SVGSVGElement;
+      expect(svg.getAttribute('viewBox')).toBe('0 0 24 24');
+      expect(svg.getAttribute('class')).toBe('icon icon--active');
+      expect(svg.querySelector('linearGradient stop')).toBeTruthy();
+      expect(svg.querySelector('path')?.getAttribute('stroke-width')).toBe('2');
+    });
   });
 
   describe('Fragment', () => {
@@ -471,6 +639,30 @@ describe('HTML Elements', () => {
       expect(form.method).toBe('post');
       expect(input.required).toBe(true);
     });
+    test('types props per tag', () => {
+      const handleSubmit = jest.fn((event: React.FormEvent<HTMLFormElement>) =>
+        event.preventDefault()
+      );
+      const element = elements.form(
+        { onSubmit: handleSubmit },
+        elements.img({ src: '/logo.png', alt: 'Logo' }),
+        elements.a({ href: '/home', target: '_blank' }, 'Home')
+      );
+
+      // @ts-expect-error - buttons have no href attribute
+      elements.button({ href: 1 });
+      // @ts-expect-error - onSubmit expects a form event handler
+      elements.img({ onSubmit: 'x' });
+      // @ts-expect-error - anchor click handlers receive anchor events
+      elements.a({ onClick: (e: React.MouseEvent<HTMLButtonElement>) => e });
+
+      const { container } = render(element);
+      const form = container.firstChild as HTMLFormElement;
+      form.dispatchEvent(new Event('submit', { bubbles: true }));
+
+      expect(handleSubmit).toHaveBeenCalledTimes(1);
+      expect(form.querySelector('img')?.getAttribute('alt')).toBe('Logo');
+    });
   });
 
   describe('Accessibility', () => {
@@ -548,7 +740,7 @@ describe('HTML Elements', () => {
     test('handles invalid props gracefully', () => {
       // This should not throw an error
       const element = elements.div(
-        { invalidProp: 'value' } as Record<string, unknown>,
+        { invalidProp: 'value' } as unknown as DivProps,
         'Content'
       );
       const { container } = render(element);
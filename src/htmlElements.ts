@@ -1,252 +1,278 @@
 import React from 'react';
-import clsx from 'clsx';
-
-// HTML element type
-type ElementProps = {
-  [key: string]: unknown;
-  children?: React.ReactNode;
-  /**
-   * Accepts clsx syntax for conditional and dynamic class names.
-   * See: https://github.com/lukeed/clsx
-   */
-  className?: Parameters<typeof clsx>[0];
-};
+import { resolveArguments } from './arguments';
+import { createElement, createSVGElement } from './elementFactory';
+import type { ElementFunction } from './types';
 
-// Helper function to create element functions
-const createElement = (tag: string) => {
-  return (
-    propsOrChildren?: ElementProps | React.ReactNode,
-    ...children: React.ReactNode[]
-  ) => {
-    // If the first argument is not an object (i.e., it's a child), treat it as children
-    if (
-      propsOrChildren &&
-      typeof propsOrChildren === 'object' &&
-      !React.isValidElement(propsOrChildren) &&
-      !Array.isArray(propsOrChildren)
-    ) {
-      // First argument is props
-      const props = propsOrChildren as ElementProps;
-
-      // Process className with clsx if it exists
-      if (props.className !== undefined) {
-        const processedProps = {
-          ...props,
-          className: clsx(props.className),
-        };
-        return React.createElement(tag, processedProps, ...children);
-      }
-
-      return React.createElement(tag, props, ...children);
-    } else {
-      // First argument is a child, no props
-      return React.createElement(tag, undefined, propsOrChildren, ...children);
-    }
-  };
-};
+// <generated-elements>
+// Generated from src/elementSpec.ts by `npm run generate:elements`.
+// Do not edit by hand.
+
+// Main root elements
+export const html = /* @__PURE__ */ createElement('html');
 
 // Document metadata elements
-export const title = createElement('title');
-export const base = createElement('base');
-export const link = createElement('link');
-export const meta = createElement('meta');
-export const style = createElement('style');
+export const title = /* @__PURE__ */ createElement('title');
+export const base = /* @__PURE__ */ createElement('base');
+export const link = /* @__PURE__ */ createElement('link');
+export const meta = /* @__PURE__ */ createElement('meta');
+export const style = /* @__PURE__ */ createElement('style');
+export const head = /* @__PURE__ */ createElement('head');
+
+// Sectioning root elements
+export const body = /* @__PURE__ */ createElement('body');
 
 // Content sectioning elements
-export const address = createElement('address');
-export const article = createElement('article');
-export const aside = createElement('aside');
-export const footer = createElement('footer');
-export const header = createElement('header');
-export const h1 = createElement('h1');
-export const h2 = createElement('h2');
-export const h3 = createElement('h3');
-export const h4 = createElement('h4');
-export const h5 = createElement('h5');
-export const h6 = createElement('h6');
-export const hgroup = createElement('hgroup');
-export const main = createElement('main');
-export const nav = createElement('nav');
-export const section = createElement('section');
+export const address = /* @__PURE__ */ createElement('address');
+export const article = /* @__PURE__ */ createElement('article');
+export const aside = /* @__PURE__ */ createElement('aside');
+export const footer = /* @__PURE__ */ createElement('footer');
+export const header = /* @__PURE__ */ createElement('header');
+export const h1 = /* @__PURE__ */ createElement('h1');
+export const h2 = /* @__PURE__ */ createElement('h2');
+export const h3 = /* @__PURE__ */ createElement('h3');
+export const h4 = /* @__PURE__ */ createElement('h4');
+export const h5 = /* @__PURE__ */ createElement('h5');
+export const h6 = /* @__PURE__ */ createElement('h6');
+export const hgroup = /* @__PURE__ */ createElement('hgroup');
+export const main = /* @__PURE__ */ createElement('main');
+export const nav = /* @__PURE__ */ createElement('nav');
+export const section = /* @__PURE__ */ createElement('section');
+export const search = /* @__PURE__ */ createElement('search');
 
 // Text content elements
-export const blockquote = createElement('blockquote');
-export const dd = createElement('dd');
-export const div = createElement('div');
-export const dl = createElement('dl');
-export const dt = createElement('dt');
-export const figcaption = createElement('figcaption');
-export const figure = createElement('figure');
-export const hr = createElement('hr');
-export const li = createElement('li');
-export const ol = createElement('ol');
-export const p = createElement('p');
-export const pre = createElement('pre');
-export const ul = createElement('ul');
+export const blockquote = /* @__PURE__ */ createElement('blockquote');
+export const dd = /* @__PURE__ */ createElement('dd');
+export const div = /* @__PURE__ */ createElement('div');
+export const dl = /* @__PURE__ */ createElement('dl');
+export const dt = /* @__PURE__ */ createElement('dt');
+export const figcaption = /* @__PURE__ */ createElement('figcaption');
+export const figure = /* @__PURE__ */ createElement('figure');
+export const hr = /* @__PURE__ */ createElement('hr');
+export const li = /* @__PURE__ */ createElement('li');
+export const ol = /* @__PURE__ */ createElement('ol');
+export const p = /* @__PURE__ */ createElement('p');
+export const pre = /* @__PURE__ */ createElement('pre');
+export const ul = /* @__PURE__ */ createElement('ul');
 
 // Inline text semantics elements
-export const a = createElement('a');
-export const abbr = createElement('abbr');
-export const b = createElement('b');
-export const bdi = createElement('bdi');
-export const bdo = createElement('bdo');
-export const br = createElement('br');
-export const cite = createElement('cite');
-export const code = createElement('code');
-export const data = createElement('data');
-export const dfn = createElement('dfn');
-export const em = createElement('em');
-export const i = createElement('i');
-export const kbd = createElement('kbd');
-export const mark = createElement('mark');
-export const q = createElement('q');
-export const rb = createElement('rb');
-export const rp = createElement('rp');
-export const rt = createElement('rt');
-export const rtc = createElement('rtc');
-export const ruby = createElement('ruby');
-export const s = createElement('s');
-export const samp = createElement('samp');
-export const small = createElement('small');
-export const span = createElement('span');
-export const strong = createElement('strong');
-export const sub = createElement('sub');
-export const sup = createElement('sup');
-export const time = createElement('time');
-export const u = createElement('u');
-export const var_ = createElement('var');
-export const wbr = createElement('wbr');
+export const a = /* @__PURE__ */ createElement('a');
+export const abbr = /* @__PURE__ */ createElement('abbr');
+export const b = /* @__PURE__ */ createElement('b');
+export const bdi = /* @__PURE__ */ createElement('bdi');
+export const bdo = /* @__PURE__ */ createElement('bdo');
+export const br = /* @__PURE__ */ createElement('br');
+export const cite = /* @__PURE__ */ createElement('cite');
+export const code = /* @__PURE__ */ createElement('code');
+export const data = /* @__PURE__ */ createElement('data');
+export const dfn = /* @__PURE__ */ createElement('dfn');
+export const em = /* @__PURE__ */ createElement('em');
+export const i = /* @__PURE__ */ createElement('i');
+export const kbd = /* @__PURE__ */ createElement('kbd');
+export const mark = /* @__PURE__ */ createElement('mark');
+export const q = /* @__PURE__ */ createElement('q');
+/** @deprecated Obsolete in HTML; put the base text directly in `ruby`. */
+export const rb = /* @__PURE__ */ createElement('rb');
+export const rp = /* @__PURE__ */ createElement('rp');
+export const rt = /* @__PURE__ */ createElement('rt');
+/** @deprecated Obsolete in HTML; use one `rt` per base text instead. */
+export const rtc = /* @__PURE__ */ createElement('rtc');
+export const ruby = /* @__PURE__ */ createElement('ruby');
+export const s = /* @__PURE__ */ createElement('s');
+export const samp = /* @__PURE__ */ createElement('samp');
+export const small = /* @__PURE__ */ createElement('small');
+export const span = /* @__PURE__ */ createElement('span');
+export const strong = /* @__PURE__ */ createElement('strong');
+export const sub = /* @__PURE__ */ createElement('sub');
+export const sup = /* @__PURE__ */ createElement('sup');
+export const time = /* @__PURE__ */ createElement('time');
+export const u = /* @__PURE__ */ createElement('u');
+export const var_ = /* @__PURE__ */ createElement('var');
+export const wbr = /* @__PURE__ */ createElement('wbr');
 
 // Image and multimedia elements
-export const area = createElement('area');
-export const audio = createElement('audio');
-export const img = createElement('img');
-export const map = createElement('map');
-export const track = createElement('track');
-export const video = createElement('video');
+export const area = /* @__PURE__ */ createElement('area');
+export const audio = /* @__PURE__ */ createElement('audio');
+export const img = /* @__PURE__ */ createElement('img');
+export const map = /* @__PURE__ */ createElement('map');
+export const track = /* @__PURE__ */ createElement('track');
+export const video = /* @__PURE__ */ createElement('video');
 
 // Embedded content elements
-export const embed = createElement('embed');
-export const iframe = createElement('iframe');
-export const object = createElement('object');
-export const param = createElement('param');
-export const picture = createElement('picture');
-export const source = createElement('source');
+export const embed = /* @__PURE__ */ createElement('embed');
+export const iframe = /* @__PURE__ */ createElement('iframe');
+export const object = /* @__PURE__ */ createElement('object');
+/** @deprecated Obsolete in HTML; use the `data` attribute of `object`. */
+export const param = /* @__PURE__ */ createElement('param');
+export const picture = /* @__PURE__ */ createElement('picture');
+export const source = /* @__PURE__ */ createElement('source');
 
 // Scripting elements
-export const canvas = createElement('canvas');
-export const noscript = createElement('noscript');
-export const script = createElement('script');
+export const canvas = /* @__PURE__ */ createElement('canvas');
+export const noscript = /* @__PURE__ */ createElement('noscript');
+export const script = /* @__PURE__ */ createElement('script');
 
 // Demarcating edits elements
-export const del = createElement('del');
-export const ins = createElement('ins');
+export const del = /* @__PURE__ */ createElement('del');
+export const ins = /* @__PURE__ */ createElement('ins');
 
 // Table content elements
-export const caption = createElement('caption');
-export const col = createElement('col');
-export const colgroup = createElement('colgroup');
-export const table = createElement('table');
-export const tbody = createElement('tbody');
-export const td = createElement('td');
-export const tfoot = createElement('tfoot');
-export const th = createElement('th');
-export const thead = createElement('thead');
-export const tr = createElement('tr');
+export const caption = /* @__PURE__ */ createElement('caption');
+export const col = /* @__PURE__ */ createElement('col');
+export const colgroup = /* @__PURE__ */ createElement('colgroup');
+export const table = /* @__PURE__ */ createElement('table');
+export const tbody = /* @__PURE__ */ createElement('tbody');
+export const td = /* @__PURE__ */ createElement('td');
+export const tfoot = /* @__PURE__ */ createElement('tfoot');
+export const th = /* @__PURE__ */ createElement('th');
+export const thead = /* @__PURE__ */ createElement('thead');
+export const tr = /* @__PURE__ */ createElement('tr');
 
 // Forms elements
-export const button = createElement('button');
-export const datalist = createElement('datalist');
-export const fieldset = createElement('fieldset');
-export const form = createElement('form');
-export const input = createElement('input');
-export const label = createElement('label');
-export const legend = createElement('legend');
-export const meter = createElement('meter');
-export const optgroup = createElement('optgroup');
-export const option = createElement('option');
-export const output = createElement('output');
-export const progress = createElement('progress');
-export const select = createElement('select');
-export const textarea = createElement('textarea');
+export const button = /* @__PURE__ */ createElement('button');
+export const datalist = /* @__PURE__ */ createElement('datalist');
+export const fieldset = /* @__PURE__ */ createElement('fieldset');
+export const form = /* @__PURE__ */ createElement('form');
+export const input = /* @__PURE__ */ createElement('input');
+export const label = /* @__PURE__ */ createElement('label');
+export const legend = /* @__PURE__ */ createElement('legend');
+export const meter = /* @__PURE__ */ createElement('meter');
+export const optgroup = /* @__PURE__ */ createElement('optgroup');
+export const option = /* @__PURE__ */ createElement('option');
+export const output = /* @__PURE__ */ createElement('output');
+export const progress = /* @__PURE__ */ createElement('progress');
+export const select = /* @__PURE__ */ createElement('select');
+export const textarea = /* @__PURE__ */ createElement('textarea');
 
 // Interactive elements
-export const details = createElement('details');
-export const dialog = createElement('dialog');
-export const menu = createElement('menu');
-export const menuitem = createElement('menuitem');
-export const summary = createElement('summary');
+export const details = /* @__PURE__ */ createElement('details');
+export const dialog = /* @__PURE__ */ createElement('dialog');
+export const menu = /* @__PURE__ */ createElement('menu');
+/** @deprecated Obsolete in HTML and unsupported by browsers. */
+export const menuitem = /* @__PURE__ */ createElement('menuitem');
+export const summary = /* @__PURE__ */ createElement('summary');
 
 // Web Components elements
-export const slot = createElement('slot');
-export const template = createElement('template');
-
-// SVG and MathML elements (basic ones)
-export const svg = createElement('svg');
-export const circle = createElement('circle');
-export const rect = createElement('rect');
-export const path = createElement('path');
-export const line = createElement('line');
-export const polygon = createElement('polygon');
-export const polyline = createElement('polyline');
-export const ellipse = createElement('ellipse');
-export const g = createElement('g');
-export const text = createElement('text');
-export const tspan = createElement('tspan');
+export const slot = /* @__PURE__ */ createElement('slot');
+export const template = /* @__PURE__ */ createElement('template');
+
+// SVG structure elements
+export const svg = /* @__PURE__ */ createSVGElement('svg');
+export const g = /* @__PURE__ */ createSVGElement('g');
+export const defs = /* @__PURE__ */ createSVGElement('defs');
+export const symbol = /* @__PURE__ */ createSVGElement('symbol');
+export const use = /* @__PURE__ */ createSVGElement('use');
+export const switch_ = /* @__PURE__ */ createSVGElement('switch');
+
+// SVG shapes elements
+export const circle = /* @__PURE__ */ createSVGElement('circle');
+export const rect = /* @__PURE__ */ createSVGElement('rect');
+export const path = /* @__PURE__ */ createSVGElement('path');
+export const line = /* @__PURE__ */ createSVGElement('line');
+export const polygon = /* @__PURE__ */ createSVGElement('polygon');
+export const polyline = /* @__PURE__ */ createSVGElement('polyline');
+export const ellipse = /* @__PURE__ */ createSVGElement('ellipse');
+
+// SVG text elements
+export const text = /* @__PURE__ */ createSVGElement('text');
+export const tspan = /* @__PURE__ */ createSVGElement('tspan');
+export const textPath = /* @__PURE__ */ createSVGElement('textPath');
+
+// SVG paint servers elements
+export const linearGradient = /* @__PURE__ */ createSVGElement('linearGradient');
+export const radialGradient = /* @__PURE__ */ createSVGElement('radialGradient');
+export const stop = /* @__PURE__ */ createSVGElement('stop');
+export const pattern = /* @__PURE__ */ createSVGElement('pattern');
+
+// SVG clipping, masking and markers elements
+export const clipPath = /* @__PURE__ */ createSVGElement('clipPath');
+export const mask = /* @__PURE__ */ createSVGElement('mask');
+export const marker = /* @__PURE__ */ createSVGElement('marker');
+
+// SVG embedded content elements
+export const image = /* @__PURE__ */ createSVGElement('image');
+export const foreignObject = /* @__PURE__ */ createSVGElement('foreignObject');
+export const view = /* @__PURE__ */ createSVGElement('view');
+
+// SVG descriptive elements
+export const desc = /* @__PURE__ */ createSVGElement('desc');
+export const metadata = /* @__PURE__ */ createSVGElement('metadata');
+
+// SVG filters elements
+export const filter = /* @__PURE__ */ createSVGElement('filter');
+export const feBlend = /* @__PURE__ */ createSVGElement('feBlend');
+export const feColorMatrix = /* @__PURE__ */ createSVGElement('feColorMatrix');
+export const feComponentTransfer = /* @__PURE__ */ createSVGElement('feComponentTransfer');
+export const feComposite = /* @__PURE__ */ createSVGElement('feComposite');
+export const feConvolveMatrix = /* @__PURE__ */ createSVGElement('feConvolveMatrix');
+export const feDiffuseLighting = /* @__PURE__ */ createSVGElement('feDiffuseLighting');
+export const feDisplacementMap = /* @__PURE__ */ createSVGElement('feDisplacementMap');
+export const feDistantLight = /* @__PURE__ */ createSVGElement('feDistantLight');
+export const feDropShadow = /* @__PURE__ */ createSVGElement('feDropShadow');
+export const feFlood = /* @__PURE__ */ createSVGElement('feFlood');
+export const feFuncA = /* @__PURE__ */ createSVGElement('feFuncA');
+export const feFuncB = /* @__PURE__ */ createSVGElement('feFuncB');
+export const feFuncG = /* @__PURE__ */ createSVGElement('feFuncG');
+export const feFuncR = /* @__PURE__ */ createSVGElement('feFuncR');
+export const feGaussianBlur = /* @__PURE__ */ createSVGElement('feGaussianBlur');
+export const feImage = /* @__PURE__ */ createSVGElement('feImage');
+export const feMerge = /* @__PURE__ */ createSVGElement('feMerge');
+export const feMergeNode = /* @__PURE__ */ createSVGElement('feMergeNode');
+export const feMorphology = /* @__PURE__ */ createSVGElement('feMorphology');
+export const feOffset = /* @__PURE__ */ createSVGElement('feOffset');
+export const fePointLight = /* @__PURE__ */ createSVGElement('fePointLight');
+export const feSpecularLighting = /* @__PURE__ */ createSVGElement('feSpecularLighting');
+export const feSpotLight = /* @__PURE__ */ createSVGElement('feSpotLight');
+export const feTile = /* @__PURE__ */ createSVGElement('feTile');
+export const feTurbulence = /* @__PURE__ */ createSVGElement('feTurbulence');
+
+// SVG animation elements
+export const animate = /* @__PURE__ */ createSVGElement('animate');
+export const animateMotion = /* @__PURE__ */ createSVGElement('animateMotion');
+export const animateTransform = /* @__PURE__ */ createSVGElement('animateTransform');
+export const mpath = /* @__PURE__ */ createSVGElement('mpath');
+export const set = /* @__PURE__ */ createSVGElement('set');
 
 // MathML elements
-export const math = createElement('math');
-export const mrow = createElement('mrow');
-export const mfrac = createElement('mfrac');
-export const msqrt = createElement('msqrt');
-export const mroot = createElement('mroot');
-export const msub = createElement('msub');
-export const msup = createElement('msup');
-export const msubsup = createElement('msubsup');
-export const munder = createElement('munder');
-export const mover = createElement('mover');
-export const munderover = createElement('munderover');
-export const mmultiscripts = createElement('mmultiscripts');
-export const mtable = createElement('mtable');
-export const mtr = createElement('mtr');
-export const mtd = createElement('mtd');
-export const maction = createElement('maction');
-export const merror = createElement('merror');
-export const mpadded = createElement('mpadded');
-export const mphantom = createElement('mphantom');
-export const mspace = createElement('mspace');
-export const mstyle = createElement('mstyle');
-export const ms = createElement('ms');
-export const mtext = createElement('mtext');
-export const mn = createElement('mn');
-export const mo = createElement('mo');
-export const mi = createElement('mi');
+export const math = /* @__PURE__ */ createElement('math');
+export const mrow = /* @__PURE__ */ createElement('mrow');
+export const mfrac = /* @__PURE__ */ createElement('mfrac');
+export const msqrt = /* @__PURE__ */ createElement('msqrt');
+export const mroot = /* @__PURE__ */ createElement('mroot');
+export const msub = /* @__PURE__ */ createElement('msub');
+export const msup = /* @__PURE__ */ createElement('msup');
+export const msubsup = /* @__PURE__ */ createElement('msubsup');
+export const munder = /* @__PURE__ */ createElement('munder');
+export const mover = /* @__PURE__ */ createElement('mover');
+export const munderover = /* @__PURE__ */ createElement('munderover');
+export const mmultiscripts = /* @__PURE__ */ createElement('mmultiscripts');
+export const mprescripts = /* @__PURE__ */ createElement('mprescripts');
+export const mtable = /* @__PURE__ */ createElement('mtable');
+export const mtr = /* @__PURE__ */ createElement('mtr');
+export const mtd = /* @__PURE__ */ createElement('mtd');
+export const maction = /* @__PURE__ */ createElement('maction');
+export const merror = /* @__PURE__ */ createElement('merror');
+export const mpadded = /* @__PURE__ */ createElement('mpadded');
+export const mphantom = /* @__PURE__ */ createElement('mphantom');
+export const mspace = /* @__PURE__ */ createElement('mspace');
+export const mstyle = /* @__PURE__ */ createElement('mstyle');
+export const ms = /* @__PURE__ */ createElement('ms');
+export const mtext = /* @__PURE__ */ createElement('mtext');
+export const mn = /* @__PURE__ */ createElement('mn');
+export const mo = /* @__PURE__ */ createElement('mo');
+export const mi = /* @__PURE__ */ createElement('mi');
+export const semantics = /* @__PURE__ */ createElement('semantics');
+export const annotation = /* @__PURE__ */ createElement('annotation');
+export const annotationXml = /* @__PURE__ */ createElement('annotation-xml');
+// </generated-elements>
 
 // Fragment for React.Fragment
-export const fragment = (
-  propsOrChildren?: ElementProps | React.ReactNode,
-  ...children: React.ReactNode[]
+export const fragment: ElementFunction<React.Attributes> = (
+  propsOrChildren?: React.Attributes | React.ReactNode,
+  ...rest: React.ReactNode[]
 ) => {
-  // If the first argument is not an object (i.e., it's a child), treat it as children
-  if (
-    propsOrChildren &&
-    typeof propsOrChildren === 'object' &&
-    !React.isValidElement(propsOrChildren) &&
-    !Array.isArray(propsOrChildren)
-  ) {
-    // First argument is props
-    return React.createElement(
-      React.Fragment,
-      propsOrChildren as ElementProps,
-      ...children
-    );
-  } else {
-    // First argument is a child, no props
-    return React.createElement(
-      React.Fragment,
-      undefined,
-      propsOrChildren,
-      ...children
-    );
-  }
+  const [props, children] = resolveArguments<React.Attributes>(
+    propsOrChildren,
+    rest
+  );
+  return React.createElement(React.Fragment, props, ...children);
 };
@@ -0,0 +1,103 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { html } from './htmlTemplate';
+import { div, fragment, input, label, li, span, ul } from './htmlElements';
+import { toHTML } from './toHTML';
+import { defineComponent } from './utils';
+
+const Card = defineComponent(function Card(
+  { title }: { title: string },
+  children
+) {
+  return div({ className: 'card' }, span(title), ...children);
+});
+
+describe('html', () => {
+  test('builds the same elements as the element functions', () => {
+    const name = 'Ada';
+    const active = true;
+    const template = html`
+      <div class="profile" id=${'main'}>
+        <label for="name">Name</label>
+        <input id="name" disabled value=${name} />
+        Hello ${name}!
+        <ul class=${['list', { active }]}>
+          ${['a', 'b'].map((item) => html`<li key=${item}>${item}</li>`)}
+        </ul>
+      </div>
+    `;
+
+    expect(template).toEqual(
+      div(
+        { className: 'profile', id: 'main' },
+        label({ htmlFor: 'name' }, 'Name'),
+        input({ id: 'name', disabled: true, value: name }),
+        'Hello ',
+        name,
+        '!',
+        ul(
+          { className: ['list', { active }] },
+          ['a', 'b'].map((item) => li({ key: item }, item))
+        )
+      )
+    );
+    expect(toHTML(template)).toContain('<ul class="list active">');
+  });
+
+  test('joins mixed attribute values, with clsx for class', () => {
+    const size = 'lg';
+    const template = html`<span
+      class="badge ${{ [`badge-${size}`]: true }} ${null}"
+      title="Size: ${size}"
+    />`;
+
+    expect(toHTML(template)).toBe(
+      '<span class="badge badge-lg" title="Size: lg"></span>'
+    );
+  });
+
+  test('spreads props and renders components, fragments and several roots', () => {
+    const props = { title: 'Total', 'data-x': 1 };
+    const template = html`
+      <${Card} ...${props}>
+        <>${42}</>
+      <//>
+      <p>After</p>
+    `;
+
+    expect(toHTML(template)).toBe(
+      '<div class="card"><span>Total</span>42</div><p>After</p>'
+    );
+    expect((template as React.ReactElement).type).toBe(fragment().type);
+  });
+
+  test('reuses a template with new values', () => {
+    const template = (count: number) => html`<p>${count}</p>`;
+    const { container, rerender } = render(template(1));
+
+    rerender(template(2));
+    expect(container).toHaveTextContent('2');
+    expect(template(3)).toEqual(template(3));
+  });
+
+  test('points at the position of parse errors', () => {
+    // prettier-ignore
+    expect(() => html`<div>\n  <span>${'x'}</div>`).toThrow(
+      [
+        'react-dom-functions: Expected the closing tag of <span>, found <div> in html template (line 2, column 13):',
+        '  <span>${…}</div>',
+        '            ^',
+      ].join('\n')
+    );
+    // prettier-ignore
+    expect(() => html`<section>\n  <p>text</p>`).toThrow(
+      'Unclosed <section> in html template (line 1, column 1)'
+    );
+    // prettier-ignore
+    expect(() => html`<a href="x>link</a>`).toThrow(
+      'Unterminated attribute value in html template (line 1, column 9)'
+    );
+    // prettier-ignore
+    expect(() => html`<p>x</p></p>`).toThrow(SyntaxError);
+  });
+});
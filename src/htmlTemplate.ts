@@ -0,0 +1,353 @@
+import React from 'react';
+import type { ElementProps } from './types';
+import { asComponentFn, createMemoizedElement } from './utils';
+import { VOID_ELEMENTS } from './voidElements';
+
+// Tagged template markup
+//
+// `html` parses the static parts of a template literal once, caches the
+// result by template, and builds elements with `createMemoizedElement` on
+// every call, which makes the same elements as the named exports without
+// pulling all of them into the bundle. Interpolations are marked with a
+// placeholder character while parsing, so they can appear anywhere a value
+// can: tags, attribute values, spreads and children.
+
+type Hole = { hole: number };
+
+type TemplateProp =
+  | { spread: number }
+  | { name: string; value: true | (string | Hole)[] };
+
+type TemplateNode =
+  | string
+  | Hole
+  | {
+      tag: string | Hole | null;
+      props: TemplateProp[];
+      children: TemplateNode[];
+    };
+
+// A private use character, which markup never contains
+const HOLE = '\uE000';
+
+// How holes are shown in error messages
+const HOLE_TEXT = '${…}';
+
+// HTML attribute names that differ from their React prop
+const PROP_NAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+};
+
+const cache = new WeakMap<TemplateStringsArray, TemplateNode[]>();
+
+// Template text collapses whitespace around line breaks like JSX
+const cleanText = (text: string) =>
+  text
+    .split(/\r\n|\n|\r/)
+    .map((line, index, lines) => {
+      let cleaned = line.replace(/\t/g, ' ');
+      if (index > 0) {
+        cleaned = cleaned.trimStart();
+      }
+      if (index < lines.length - 1) {
+        cleaned = cleaned.trimEnd();
+      }
+      return cleaned;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+const describeTag = (tag: string | Hole | null) =>
+  tag === null ? '<>' : typeof tag === 'string' ? `<${tag}>` : `<${HOLE_TEXT}>`;
+
+/**
+ * Parses the static parts of a template into nodes whose interpolations
+ * are referenced by index.
+ */
+const parse = (strings: TemplateStringsArray): TemplateNode[] => {
+  const source = strings.join(HOLE);
+  let index = 0;
+  let holes = 0;
+
+  const fail = (message: string, position = index): never => {
+    const lineStart = source.lastIndexOf('\n', position - 1) + 1;
+    const lineEnd = source.indexOf('\n', position);
+    const show = (text: string) => text.split(HOLE).join(HOLE_TEXT);
+    const line = show(
+      source.slice(lineStart, lineEnd === -1 ? source.length : lineEnd)
+    );
+    const column = show(source.slice(lineStart, position)).length;
+    const lineNumber = source.slice(0, position).split('\n').length;
+    throw new SyntaxError(
+      `react-dom-functions: ${message} in html template (line ${lineNumber}, column ${
+        column + 1
+      }):\n${line}\n${' '.repeat(column)}^`
+    );
+  };
+
+  const readHole = (): Hole => {
+    index++;
+    return { hole: holes++ };
+  };
+
+  const skipWhitespace = () => {
+    while (/\s/.test(source[index] ?? '')) {
+      index++;
+    }
+  };
+
+  // A tag name, an interpolated component, or nothing for fragments
+  const readTag = (): string | Hole | null => {
+    if (source[index] === HOLE) {
+      return readHole();
+    }
+    const name = /^[^\s/>\uE000]*/.exec(source.slice(index))![0];
+    index += name.length;
+    return name || null;
+  };
+
+  const readValue = (): (string | Hole)[] => {
+    const quote = source[index];
+    if (quote === '"' || quote === "'") {
+      const start = index;
+      index++;
+      const parts: (string | Hole)[] = [];
+      let text = '';
+      while (source[index] !== quote) {
+        if (index >= source.length) {
+          fail('Unterminated attribute value', start);
+        }
+        if (source[index] === HOLE) {
+          if (text) {
+            parts.push(text);
+            text = '';
+          }
+          parts.push(readHole());
+        } else {
+          text += source[index++];
+        }
+      }
+      index++;
+      return text || parts.length === 0 ? [...parts, text] : parts;
+    }
+    if (source[index] === HOLE) {
+      return [readHole()];
+    }
+    const text = /^[^\s>\uE000]*/.exec(source.slice(index))![0];
+    if (!text || text.startsWith('/')) {
+      fail('Expected an attribute value');
+    }
+    index += text.length;
+    return [text];
+  };
+
+  const readProps = (): [props: TemplateProp[], selfClosing: boolean] => {
+    const props: TemplateProp[] = [];
+    for (;;) {
+      skipWhitespace();
+      if (index >= source.length) {
+        fail('Unexpected end of template');
+      }
+      if (source.startsWith('/>', index)) {
+        index += 2;
+        return [props, true];
+      }
+      if (source[index] === '>') {
+        index++;
+        return [props, false];
+      }
+      if (source.startsWith(`...${HOLE}`, index)) {
+        index += 3;
+        props.push({ spread: readHole().hole });
+        continue;
+      }
+      const name = /^[^\s=/>\uE000]+/.exec(source.slice(index))?.[0];
+      if (!name) {
+        fail('Expected an attribute name');
+      }
+      index += name!.length;
+      skipWhitespace();
+      if (source[index] === '=') {
+        index++;
+        skipWhitespace();
+        props.push({ name: name!, value: readValue() });
+      } else {
+        props.push({ name: name!, value: true });
+      }
+    }
+  };
+
+  const sameTag = (a: string | Hole | null, b: string | Hole | null) =>
+    typeof a === 'string' || typeof b === 'string' || a === null || b === null
+      ? a === b
+      : true;
+
+  const readChildren = (
+    parent: string | Hole | null,
+    openedAt: number
+  ): TemplateNode[] => {
+    const children: TemplateNode[] = [];
+    for (;;) {
+      if (index >= source.length) {
+        if (openedAt === -1) {
+          return children;
+        }
+        fail(`Unclosed ${describeTag(parent)}`, openedAt);
+      }
+      if (source[index] === HOLE) {
+        children.push(readHole());
+        continue;
+      }
+      if (source.startsWith('<!--', index)) {
+        const end = source.indexOf('-->', index + 4);
+        if (end === -1) {
+          fail('Unterminated comment');
+        }
+        holes += source.slice(index, end).split(HOLE).length - 1;
+        index = end + 3;
+        continue;
+      }
+      if (source.startsWith('</', index)) {
+        const start = index;
+        index += 2;
+        // <//> closes any element, like in htm
+        const tag = source[index] === '/' ? parent : readTag();
+        if (source[index] === '/') {
+          index++;
+        }
+        skipWhitespace();
+        if (source[index] !== '>') {
+          fail('Expected ">"');
+        }
+        index++;
+        if (openedAt === -1) {
+          fail(`Unexpected closing tag ${describeTag(tag)}`, start);
+        }
+        if (!sameTag(tag, parent)) {
+          fail(
+            `Expected the closing tag of ${describeTag(
+              parent
+            )}, found ${describeTag(tag)}`,
+            start
+          );
+        }
+        return children;
+      }
+      if (source[index] === '<') {
+        const start = index;
+        index++;
+        const tag = readTag();
+        const [props, selfClosing] = readProps();
+        children.push({
+          tag,
+          props,
+          children:
+            selfClosing ||
+            (typeof tag === 'string' && VOID_ELEMENTS.includes(tag))
+              ? []
+              : readChildren(tag, start),
+        });
+        continue;
+      }
+
+      const end = source.slice(index).search(/[<\uE000]/);
+      const text = source.slice(index, end === -1 ? undefined : index + end);
+      index += text.length;
+      const cleaned = cleanText(text);
+      if (cleaned) {
+        children.push(cleaned);
+      }
+    }
+  };
+
+  return readChildren(null, -1);
+};
+
+const isHole = (value: unknown): value is Hole =>
+  typeof value === 'object' && value !== null && 'hole' in value;
+
+/**
+ * Builds elements from markup in a template literal: the same elements the
+ * element functions make.
+ *
+ * Attributes take React prop names, except that `class` and `for` work too;
+ * `class` takes clsx syntax, like `className`. Interpolate values into
+ * attributes, children and the tag itself, to render a component.
+ *
+ * @returns The element, or a fragment when the template has several
+ * top-level nodes
+ * @throws SyntaxError when the markup is malformed, with its position in the
+ * template
+ *
+ * @example
+ * html`
+ *   <ul class=${['list', { compact }]}>
+ *     ${items.map((item) => html`<li key=${item.id}>${item.name}</li>`)}
+ *   </ul>
+ *   <${Card} title="Total" ...${cardProps}>${total}<//>
+ * `;
+ */
+export const html = (
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): React.ReactNode => {
+  let nodes = cache.get(strings);
+  if (!nodes) {
+    nodes = parse(strings);
+    cache.set(strings, nodes);
+  }
+
+  const build = (node: TemplateNode): React.ReactNode => {
+    if (typeof node === 'string') {
+      return node;
+    }
+    if (isHole(node)) {
+      return values[node.hole] as React.ReactNode;
+    }
+
+    const props: Record<string, unknown> = {};
+    for (const prop of node.props) {
+      if ('spread' in prop) {
+        Object.assign(props, values[prop.spread]);
+        continue;
+      }
+      const name = PROP_NAMES[prop.name] ?? prop.name;
+      const parts =
+        prop.value === true
+          ? [true]
+          : prop.value.map((part) => (isHole(part) ? values[part.hole] : part));
+      if (parts.length === 1) {
+        props[name] = parts[0];
+      } else if (name === 'className') {
+        // clsx joins the parts, whatever their syntax
+        props[name] = parts.map((part) =>
+          typeof part === 'string' ? part.trim() : part
+        );
+      } else {
+        props[name] = parts.join('');
+      }
+    }
+
+    const children = node.children.map(build);
+    const tag = isHole(node.tag) ? values[node.tag.hole] : node.tag;
+    if (tag === null) {
+      return React.createElement(React.Fragment, props, ...children);
+    }
+    if (typeof tag === 'string') {
+      return createMemoizedElement(tag)(props as ElementProps, ...children);
+    }
+    return asComponentFn(tag as React.ComponentType<Record<string, unknown>>)(
+      props,
+      ...children
+    );
+  };
+
+  const roots = nodes.map(build);
+  if (roots.length === 0) {
+    return null;
+  }
+  return roots.length === 1
+    ? roots[0]
+    : React.createElement(React.Fragment, null, ...roots);
+};
@@ -0,0 +1,177 @@
+import { htmlToCode } from './htmlToCode';
+
+describe('htmlToCode', () => {
+  test('renames attributes and uses the props-less shorthand', () => {
+    const { code, issues } = htmlToCode(
+      '<div class="card"><label for="email">Email</label><p>Hi &amp; bye</p></div>'
+    );
+
+    expect(code).toBe(
+      "div({ className: 'card' }, label({ htmlFor: 'email' }, 'Email'), p('Hi & bye'))"
+    );
+    expect(issues).toEqual([]);
+  });
+
+  test('turns inline styles into style objects', () => {
+    const { code } = htmlToCode(
+      '<span style="margin-top: 8px; opacity: .5; z-index: 2; width: 50%; -webkit-line-clamp: 2; grid-row: 3; -ms-transform: none; --gap: 4px">x</span>'
+    );
+
+    expect(code).toBe(
+      [
+        'span(',
+        '  {',
+        '    style: {',
+        '      marginTop: 8,',
+        '      opacity: 0.5,',
+        '      zIndex: 2,',
+        "      width: '50%',",
+        '      WebkitLineClamp: 2,',
+        '      gridRow: 3,',
+        "      msTransform: 'none',",
+        "      '--gap': '4px',",
+        '    },',
+        '  },',
+        "  'x'",
+        ')',
+      ].join('\n')
+    );
+  });
+
+  test('camel-cases SVG attributes and keeps SVG tag names', () => {
+    const { code } = htmlToCode(
+      '<svg viewBox="0 0 24 24" class="icon" tabindex="0"><linearGradient id="g"/><use xlink:href="#a" stroke-width="2"/></svg>'
+    );
+
+    expect(code).toBe(
+      [
+        'svg(',
+        "  { viewBox: '0 0 24 24', className: 'icon', tabIndex: 0 },",
+        "  linearGradient({ id: 'g' }),",
+        "  use({ xlinkHref: '#a', strokeWidth: '2' })",
+        ')',
+      ].join('\n')
+    );
+  });
+
+  test('collapses whitespace, closes optional end tags and keeps comments', () => {
+    const { code } = htmlToCode(`
+      <!DOCTYPE html>
+      <ul>
+        <!-- items -->
+        <li>One
+        <li>Two   and
+          three
+      </ul>
+      <pre>  keep
+  this</pre>
+    `);
+
+    expect(code).toBe(
+      [
+        'fragment(',
+        '  ul(',
+        '    /* items */',
+        "    li('One'),",
+        "    li('Two and three')",
+        '  ),',
+        "  pre('  keep\\n  this')",
+        ')',
+      ].join('\n')
+    );
+  });
+
+  test('inserts the tbody and tr the HTML parser adds to tables', () => {
+    expect(htmlToCode('<table><tr><td>A<td>B<tr><td>C</table>').code).toBe(
+      "table(tbody(tr(td('A'), td('B')), tr(td('C'))))"
+    );
+    expect(
+      htmlToCode('<table><thead><th>Name</thead><td>Ada</table>').code
+    ).toBe("table(thead(tr(th('Name'))), tbody(tr(td('Ada'))))");
+  });
+
+  test('converts form attributes to uncontrolled defaults and typed values', () => {
+    const { code } = htmlToCode(
+      [
+        '<input type="checkbox" checked disabled tabindex="0">',
+        '<select><option value="a">A<option value="b" selected>B</select>',
+        '<textarea rows="3">Hello</textarea>',
+      ].join('')
+    );
+
+    expect(code).toContain(
+      "input({ type: 'checkbox', defaultChecked: true, disabled: true, tabIndex: 0 })"
+    );
+    expect(code).toContain(
+      [
+        '  select(',
+        "    { defaultValue: 'b' },",
+        "    option({ value: 'a' }, 'A'),",
+        "    option({ value: 'b' }, 'B')",
+        '  ),',
+      ].join('\n')
+    );
+    expect(code).toContain("textarea({ rows: 3, defaultValue: 'Hello' })");
+  });
+
+  test('renames every attribute React spells differently', () => {
+    const { code } = htmlToCode(
+      [
+        '<button formmethod="post" formenctype="text/plain" formtarget="_blank" formnovalidate popovertarget="menu">Send</button>',
+        '<input autocapitalize="off" enterkeyhint="go">',
+        '<img src="/a.png" alt="" fetchpriority="high">',
+      ].join('')
+    );
+
+    expect(code).toContain(
+      [
+        '  button(',
+        '    {',
+        "      formMethod: 'post',",
+        "      formEncType: 'text/plain',",
+        "      formTarget: '_blank',",
+        '      formNoValidate: true,',
+        "      popoverTarget: 'menu',",
+        '    },',
+        "    'Send'",
+        '  ),',
+      ].join('\n')
+    );
+    expect(code).toContain(
+      "input({ autoCapitalize: 'off', enterKeyHint: 'go' })"
+    );
+    expect(code).toContain(
+      "img({ src: '/a.png', alt: '', fetchPriority: 'high' })"
+    );
+  });
+
+  test('reports inline event handlers and creates unknown elements', () => {
+    const { code, issues } = htmlToCode(
+      '<section>\n  <button onclick="save()">Save</button>\n  <my-widget></my-widget>\n</section>'
+    );
+
+    expect(code).toBe(
+      "section(button('Save'), createMemoizedElement('my-widget')())"
+    );
+    expect(issues).toEqual([
+      {
+        line: 2,
+        column: 3,
+        message:
+          'Inline event handler "onclick" on <button> was dropped; add an event handler prop instead.',
+      },
+    ]);
+  });
+
+  test('adds the import statement when asked', () => {
+    expect(
+      htmlToCode('<h1>Title</h1><p>Text</p>', { imports: true }).code
+    ).toBe(
+      [
+        "import { fragment, h1, p } from 'react-dom-functions';",
+        '',
+        "fragment(h1('Title'), p('Text'))",
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,605 @@
+import {
+  type Argument,
+  type CodeIssue,
+  decodeEntities,
+  exportNames,
+  printCall,
+  printImport,
+  printObject,
+  propertyName,
+  quote,
+} from './codegen';
+import { isUnitlessStyle } from './cssDeclaration';
+import { VOID_ELEMENTS } from './voidElements';
+
+// HTML to element function code generator
+//
+// Parses an HTML snippet, such as a design mockup, with a small forgiving
+// parser and prints the element function calls that build it. Attributes are
+// renamed to their React props and inline styles become style objects.
+
+export type HtmlToCodeOptions = {
+  /** Prepend the `import` of the element functions the code uses */
+  imports?: boolean;
+};
+
+export type HtmlToCodeResult = {
+  code: string;
+  /** Markup that has no equivalent, such as inline event handlers */
+  issues: CodeIssue[];
+};
+
+type HtmlElement = {
+  kind: 'element';
+  tag: string;
+  attributes: [name: string, value: string | null][];
+  children: HtmlNode[];
+  position: number;
+};
+
+type HtmlNode =
+  | HtmlElement
+  | { kind: 'text'; text: string }
+  | { kind: 'comment'; text: string };
+
+// Elements whose content is text up to their end tag
+const RAW_TEXT = ['script', 'style', 'textarea', 'title'];
+
+// Elements whose whitespace is significant
+const PREFORMATTED = ['pre', 'textarea', 'script', 'style'];
+
+const BLOCK_ELEMENTS = [
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'div',
+  'dl',
+  'fieldset',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'ul',
+];
+
+// Open elements that a start tag closes, as HTML's optional end tags allow
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+  ...Object.fromEntries(BLOCK_ELEMENTS.map((tag) => [tag, ['p']])),
+};
+
+// Parents the HTML parser inserts for a start tag: for each, the open
+// elements that need it and the parent to insert
+const IMPLIED_PARENTS: Record<string, [string[], string][]> = {
+  tr: [[['table'], 'tbody']],
+  td: [
+    [['table'], 'tbody'],
+    [['tbody', 'thead', 'tfoot'], 'tr'],
+  ],
+  th: [
+    [['table'], 'tbody'],
+    [['tbody', 'thead', 'tfoot'], 'tr'],
+  ],
+};
+
+const START_TAG =
+  /^<([a-zA-Z][^\s/>]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+const ATTRIBUTE =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const END_TAG = /^<\/([a-zA-Z][^\s/>]*)\s*>/;
+
+// HTML attribute names whose React prop name differs, from react-dom's list
+// of standard names, with the attributes React 19 added
+const PROP_NAMES: Record<string, string> = {
+  'accept-charset': 'acceptCharset',
+  accesskey: 'accessKey',
+  allowfullscreen: 'allowFullScreen',
+  autocapitalize: 'autoCapitalize',
+  autocomplete: 'autoComplete',
+  autocorrect: 'autoCorrect',
+  autofocus: 'autoFocus',
+  autoplay: 'autoPlay',
+  autosave: 'autoSave',
+  cellpadding: 'cellPadding',
+  cellspacing: 'cellSpacing',
+  charset: 'charSet',
+  class: 'className',
+  classid: 'classID',
+  colspan: 'colSpan',
+  contenteditable: 'contentEditable',
+  contextmenu: 'contextMenu',
+  controlslist: 'controlsList',
+  crossorigin: 'crossOrigin',
+  datetime: 'dateTime',
+  disablepictureinpicture: 'disablePictureInPicture',
+  disableremoteplayback: 'disableRemotePlayback',
+  enctype: 'encType',
+  enterkeyhint: 'enterKeyHint',
+  fetchpriority: 'fetchPriority',
+  for: 'htmlFor',
+  formaction: 'formAction',
+  formenctype: 'formEncType',
+  formmethod: 'formMethod',
+  formnovalidate: 'formNoValidate',
+  formtarget: 'formTarget',
+  frameborder: 'frameBorder',
+  hreflang: 'hrefLang',
+  'http-equiv': 'httpEquiv',
+  imagesizes: 'imageSizes',
+  imagesrcset: 'imageSrcSet',
+  inputmode: 'inputMode',
+  itemid: 'itemID',
+  itemprop: 'itemProp',
+  itemref: 'itemRef',
+  itemscope: 'itemScope',
+  itemtype: 'itemType',
+  keyparams: 'keyParams',
+  keytype: 'keyType',
+  marginheight: 'marginHeight',
+  marginwidth: 'marginWidth',
+  maxlength: 'maxLength',
+  mediagroup: 'mediaGroup',
+  minlength: 'minLength',
+  nomodule: 'noModule',
+  novalidate: 'noValidate',
+  playsinline: 'playsInline',
+  popovertarget: 'popoverTarget',
+  popovertargetaction: 'popoverTargetAction',
+  radiogroup: 'radioGroup',
+  readonly: 'readOnly',
+  referrerpolicy: 'referrerPolicy',
+  rowspan: 'rowSpan',
+  spellcheck: 'spellCheck',
+  srcdoc: 'srcDoc',
+  srclang: 'srcLang',
+  srcset: 'srcSet',
+  tabindex: 'tabIndex',
+  usemap: 'useMap',
+};
+
+const BOOLEAN_PROPS = [
+  'allowFullScreen',
+  'async',
+  'autoFocus',
+  'autoPlay',
+  'checked',
+  'controls',
+  'defaultChecked',
+  'default',
+  'defer',
+  'disablePictureInPicture',
+  'disableRemotePlayback',
+  'disabled',
+  'formNoValidate',
+  'hidden',
+  'inert',
+  'itemScope',
+  'loop',
+  'multiple',
+  'muted',
+  'noModule',
+  'noValidate',
+  'open',
+  'playsInline',
+  'readOnly',
+  'required',
+  'reversed',
+  'selected',
+];
+
+// Props React types as numbers
+const NUMERIC_PROPS = [
+  'colSpan',
+  'cols',
+  'maxLength',
+  'minLength',
+  'rowSpan',
+  'rows',
+  'size',
+  'span',
+  'start',
+  'tabIndex',
+];
+
+const camelCase = (name: string) =>
+  name.replace(/[-:]([a-z])/g, (_match, letter: string) =>
+    letter.toUpperCase()
+  );
+
+const lineAndColumn = (source: string, position: number) => {
+  const lines = source.slice(0, position).split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+/**
+ * Parses HTML into a tree, closing elements whose end tags are optional or
+ * missing.
+ */
+const parse = (html: string) => {
+  const root: HtmlElement = {
+    kind: 'element',
+    tag: '',
+    attributes: [],
+    children: [],
+    position: 0,
+  };
+  const stack = [root];
+  const current = () => stack[stack.length - 1];
+  let index = 0;
+
+  while (index < html.length) {
+    const rest = html.slice(index);
+    if (rest.startsWith('<!--')) {
+      const end = html.indexOf('-->', index + 4);
+      const stop = end === -1 ? html.length : end;
+      current().children.push({
+        kind: 'comment',
+        text: html.slice(index + 4, stop).trim(),
+      });
+      index = stop + 3;
+      continue;
+    }
+    if (rest.startsWith('<!') || rest.startsWith('<?')) {
+      // Doctype and processing instructions
+      const end = html.indexOf('>', index);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const endTag = END_TAG.exec(rest);
+    if (endTag) {
+      const tag = endTag[1].toLowerCase();
+      const open = stack.map((element) => element.tag.toLowerCase());
+      const depth = open.lastIndexOf(tag);
+      if (depth > 0) {
+        stack.length = depth;
+      }
+      index += endTag[0].length;
+      continue;
+    }
+
+    const startTag = START_TAG.exec(rest);
+    if (startTag) {
+      // SVG and MathML keep the case of their tag and attribute names
+      const foreignRoot = /^(svg|math)$/i.test(startTag[1]);
+      const inForeignContent =
+        foreignRoot ||
+        stack.some(
+          (element) => element.tag === 'svg' || element.tag === 'math'
+        );
+      const tag =
+        inForeignContent && !foreignRoot
+          ? startTag[1]
+          : startTag[1].toLowerCase();
+      const closes = IMPLIED_END_TAGS[tag] ?? [];
+      while (stack.length > 1 && closes.includes(current().tag)) {
+        stack.pop();
+      }
+      // Rows and cells get the tbody and tr the HTML parser inserts
+      for (const [parents, parent] of IMPLIED_PARENTS[tag] ?? []) {
+        if (parents.includes(current().tag)) {
+          const inserted: HtmlElement = {
+            kind: 'element',
+            tag: parent,
+            attributes: [],
+            children: [],
+            position: index,
+          };
+          current().children.push(inserted);
+          stack.push(inserted);
+        }
+      }
+
+      const element: HtmlElement = {
+        kind: 'element',
+        tag,
+        attributes: Array.from(startTag[2].matchAll(ATTRIBUTE), (match) => [
+          inForeignContent ? match[1] : match[1].toLowerCase(),
+          match[2] ?? match[3] ?? match[4] ?? null,
+        ]),
+        children: [],
+        position: index,
+      };
+      current().children.push(element);
+      index += startTag[0].length;
+
+      if (RAW_TEXT.includes(tag)) {
+        const end = html.toLowerCase().indexOf(`</${tag}`, index);
+        const stop = end === -1 ? html.length : end;
+        if (stop > index) {
+          element.children.push({
+            kind: 'text',
+            text: html.slice(index, stop),
+          });
+        }
+        index = stop;
+      } else if (!VOID_ELEMENTS.includes(tag) && !startTag[3]) {
+        stack.push(element);
+      }
+      continue;
+    }
+
+    // Text, up to the next tag; a stray `<` is text too
+    const next = html.indexOf('<', index + 1);
+    const stop = next === -1 ? html.length : next;
+    current().children.push({ kind: 'text', text: html.slice(index, stop) });
+    index = stop;
+  }
+
+  return root.children;
+};
+
+/**
+ * Converts an inline style string to the text of a style object.
+ */
+const printStyle = (css: string, indent: string, prefix: string) => {
+  const declarations =
+    css.match(/(?:[^;"'(]|"[^"]*"|'[^']*'|\([^)]*\))+/g) ?? [];
+  const properties = declarations.flatMap((declaration) => {
+    const colon = declaration.indexOf(':');
+    const name = declaration.slice(0, colon).trim();
+    const value = declaration.slice(colon + 1).trim();
+    if (colon === -1 || !name || !value) {
+      return [];
+    }
+    if (name.startsWith('--')) {
+      return [`${quote(name)}: ${quote(value)}`];
+    }
+
+    // -webkit-line-clamp -> WebkitLineClamp, but -ms-transform -> msTransform
+    const lower = name.toLowerCase();
+    const property = camelCase(
+      lower.startsWith('-ms-') ? lower.slice(1) : lower
+    );
+    const unitless = isUnitlessStyle(property);
+    const number = /^-?(?:\d+\.?\d*|\.\d+)(px)?$/.exec(value);
+    const printed =
+      number && (value === '0' || (unitless ? !number[1] : number[1]))
+        ? String(parseFloat(value))
+        : quote(value);
+    return [`${property}: ${printed}`];
+  });
+  return printObject(properties, indent, prefix) || '{}';
+};
+
+const propName = (attribute: string, svg: boolean) => {
+  if (
+    attribute.startsWith('data-') ||
+    attribute.startsWith('aria-') ||
+    attribute.startsWith('--')
+  ) {
+    return attribute;
+  }
+  if (PROP_NAMES[attribute]) {
+    return PROP_NAMES[attribute];
+  }
+  return svg ? camelCase(attribute) : attribute;
+};
+
+/**
+ * Converts an HTML snippet to element function calls.
+ *
+ * @param html - The markup, e.g. a mockup or a page fragment
+ * @param options - Whether to include the import statement
+ * @returns The code, and the markup that could not be converted
+ *
+ * @example
+ * htmlToCode('<p class="lead">Hi <b>there</b></p>').code;
+ * // "p({ className: 'lead' }, 'Hi ', b('there'))"
+ */
+export const htmlToCode = (
+  html: string,
+  options: HtmlToCodeOptions = {}
+): HtmlToCodeResult => {
+  const issues: CodeIssue[] = [];
+  const imports = new Set<string>();
+
+  const report = (element: HtmlElement, message: string) => {
+    issues.push({ ...lineAndColumn(html, element.position), message });
+  };
+
+  const calleeFor = (tag: string) => {
+    const name = exportNames.get(tag);
+    if (name) {
+      imports.add(name);
+      return name;
+    }
+    imports.add('createMemoizedElement');
+    return `createMemoizedElement(${quote(tag)})`;
+  };
+
+  const printProps = (
+    element: HtmlElement,
+    svg: boolean,
+    indent: string,
+    extra: string[]
+  ) => {
+    const { tag } = element;
+    const formControl = ['input', 'select', 'textarea'].includes(tag);
+    const properties = element.attributes.flatMap(([attribute, value]) => {
+      if (/^on/i.test(attribute)) {
+        report(
+          element,
+          `Inline event handler "${attribute}" on <${tag}> was dropped; add an event handler prop instead.`
+        );
+        return [];
+      }
+      let name = propName(attribute, svg);
+      if (formControl && (name === 'value' || name === 'checked')) {
+        // Uncontrolled, so React does not warn about a missing onChange
+        name = name === 'value' ? 'defaultValue' : 'defaultChecked';
+      }
+      if (tag === 'option' && name === 'selected') {
+        // Moved to the select's defaultValue
+        return [];
+      }
+      const key = propertyName(name);
+
+      if (name === 'style' && value !== null) {
+        return [
+          `${key}: ${printStyle(
+            decodeEntities(value),
+            `${indent}  `,
+            `${key}: `
+          )}`,
+        ];
+      }
+      if (BOOLEAN_PROPS.includes(name)) {
+        return [`${key}: true`];
+      }
+      const text = decodeEntities(value ?? '');
+      if (name === 'className' && !text.trim()) {
+        return [];
+      }
+      if (NUMERIC_PROPS.includes(name) && /^-?\d+$/.test(text)) {
+        return [`${key}: ${text}`];
+      }
+      return [`${key}: ${quote(name === 'className' ? text.trim() : text)}`];
+    });
+    return printObject([...properties, ...extra], indent);
+  };
+
+  // The value of the selected option of a select, if any option is selected
+  const selectedValue = (element: HtmlElement): string | undefined => {
+    for (const child of element.children) {
+      if (child.kind !== 'element') {
+        continue;
+      }
+      if (child.tag === 'option') {
+        if (child.attributes.some(([name]) => name === 'selected')) {
+          const value = child.attributes.find(([name]) => name === 'value');
+          return decodeEntities(value?.[1] ?? textOf(child).trim());
+        }
+      } else if (child.tag === 'optgroup') {
+        const value = selectedValue(child);
+        if (value !== undefined) {
+          return value;
+        }
+      }
+    }
+    return undefined;
+  };
+
+  const textOf = (node: HtmlNode): string =>
+    node.kind === 'text'
+      ? decodeEntities(node.text)
+      : node.kind === 'element'
+      ? node.children.map(textOf).join('')
+      : '';
+
+  const printChildren = (
+    nodes: HtmlNode[],
+    indent: string,
+    svg: boolean,
+    preformatted: boolean
+  ) =>
+    nodes.flatMap((node): Argument[] => {
+      if (node.kind === 'comment') {
+        return node.text
+          ? [
+              {
+                text: `/* ${node.text.replace(/\*\//g, '* /')} */`,
+                comment: true,
+              },
+            ]
+          : [];
+      }
+      if (node.kind === 'element') {
+        return [{ text: printElement(node, indent, svg) }];
+      }
+      if (preformatted) {
+        return [{ text: quote(decodeEntities(node.text)) }];
+      }
+
+      // Whitespace collapses to one space; whitespace that spans a line
+      // break is markup indentation and is dropped
+      let text = node.text.replace(/\s+/g, ' ');
+      if (/^\s*\n/.test(node.text)) {
+        text = text.trimStart();
+      }
+      if (/\n\s*$/.test(node.text)) {
+        text = text.trimEnd();
+      }
+      return text ? [{ text: quote(decodeEntities(text)) }] : [];
+    });
+
+  const printElement = (
+    element: HtmlElement,
+    indent: string,
+    inSvg: boolean
+  ): string => {
+    const { tag } = element;
+    const svg = inSvg || tag === 'svg';
+    const childIndent = `${indent}  `;
+    const extra: string[] = [];
+    let children = element.children;
+
+    if (tag === 'textarea') {
+      // React takes the initial text of a textarea as defaultValue
+      const text = children.map(textOf).join('');
+      if (text) {
+        extra.push(`defaultValue: ${quote(text.replace(/^\n/, ''))}`);
+      }
+      children = [];
+    }
+    if (tag === 'select') {
+      const value = selectedValue(element);
+      if (value !== undefined) {
+        extra.push(`defaultValue: ${quote(value)}`);
+      }
+    }
+
+    const props = printProps(element, svg, childIndent, extra);
+    const args = printChildren(
+      children,
+      childIndent,
+      svg && tag !== 'foreignObject',
+      PREFORMATTED.includes(tag)
+    );
+    return printCall(
+      calleeFor(tag),
+      props ? [{ text: props }, ...args] : args,
+      indent
+    );
+  };
+
+  const roots = parse(html).filter(
+    (node) => node.kind !== 'text' || node.text.trim()
+  );
+  let code: string;
+  if (roots.length === 0) {
+    code = 'null';
+  } else if (roots.length === 1 && roots[0].kind !== 'comment') {
+    code = printChildren(roots, '', false, false)[0].text;
+  } else {
+    // Several top-level nodes are wrapped in a fragment
+    imports.add('fragment');
+    code = printCall('fragment', printChildren(roots, '  ', false, false), '');
+  }
+
+  if (options.imports) {
+    code = `${printImport(Array.from(imports).sort())}\n\n${code}`;
+  }
+  return { code, issues };
+};
@@ -0,0 +1,46 @@
+// Command line entry for the HTML converter, shipped as the
+// `react-dom-functions-from-html` binary.
+//
+// Usage: react-dom-functions-from-html [--no-imports] [file.html]
+
+import { readFileSync } from 'node:fs';
+import { htmlToCode } from './htmlToCode';
+
+const USAGE =
+  'Usage: react-dom-functions-from-html [--no-imports] [file.html]\nReads standard input when no file is given.';
+
+const run = (args: string[]) => {
+  let imports = true;
+  const files: string[] = [];
+
+  for (const arg of args) {
+    if (arg === '--no-imports') {
+      imports = false;
+    } else if (arg === '--help') {
+      console.log(USAGE);
+      return 0;
+    } else if (arg.startsWith('--')) {
+      console.error(`Unknown option ${arg}\n${USAGE}`);
+      return 1;
+    } else {
+      files.push(arg);
+    }
+  }
+  if (files.length > 1) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const file = files[0];
+  // File descriptor 0 is standard input
+  const html = readFileSync(file ?? 0, 'utf8');
+  const { code, issues } = htmlToCode(html, { imports });
+
+  issues.forEach(({ line, column, message }) => {
+    console.warn(`${file ?? '<stdin>'}:${line}:${column} ${message}`);
+  });
+  console.log(code);
+  return 0;
+};
+
+process.exitCode = run(process.argv.slice(2));
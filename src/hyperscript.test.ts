@@ -0,0 +1,58 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { button, div, span } from './htmlElements';
+import { h, type SelectorTag } from './hyperscript';
+
+describe('h', () => {
+  test('parses the tag, id and classes of the selector', () => {
+    expect(h('button.btn.primary#save', 'Save')).toEqual(
+      button({ id: 'save', className: 'btn primary' }, 'Save')
+    );
+    expect(h('.card', span('Body'))).toEqual(
+      div({ className: 'card' }, span('Body'))
+    );
+    expect(h('section')).toEqual(React.createElement('section'));
+  });
+
+  test('reads dynamic ids with the cached tag and classes', () => {
+    expect([1, 2].map((id) => h(`li.row#item-${id}.done`))).toEqual([
+      React.createElement('li', { id: 'item-1', className: 'row done' }),
+      React.createElement('li', { id: 'item-2', className: 'row done' }),
+    ]);
+    expect(h('#main')).toEqual(div({ id: 'main' }));
+  });
+
+  test('merges selector classes with a clsx className', () => {
+    const { container } = render(
+      h('button.btn#save', {
+        className: ['primary', { busy: true, hidden: false }],
+        id: 'submit',
+        type: 'submit',
+      })
+    );
+    const element = container.firstChild as HTMLButtonElement;
+
+    expect(element.className).toBe('btn primary busy');
+    expect(element.id).toBe('submit');
+    expect(element.type).toBe('submit');
+  });
+
+  test('types props from the selector tag', () => {
+    const tag: SelectorTag<'input#name.field'> = 'input';
+    const fallback: SelectorTag<'.card'> = 'div';
+
+    h('input#name.field', { value: 'Ada', readOnly: true });
+    // @ts-expect-error: href is not a button prop
+    h('button.link', { href: '/home' });
+
+    expect([tag, fallback]).toEqual(['input', 'div']);
+  });
+
+  test('rejects malformed selectors', () => {
+    expect(() => h('div..x')).toThrow(
+      'react-dom-functions: Invalid selector "div..x"; use tag#id.class with non-empty names.'
+    );
+    expect(() => h('p#a#b')).toThrow('Selector "p#a#b" has more than one id.');
+    expect(() => h('p#.x')).toThrow('Invalid selector "p#.x"');
+  });
+});
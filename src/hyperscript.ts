@@ -0,0 +1,116 @@
+import React from 'react';
+import { resolveArguments } from './arguments';
+import type { BaseElementProps, ElementProps } from './types';
+import { createMemoizedElement, type MemoizedElementProps } from './utils';
+
+/**
+ * The tag of a hyperscript selector: the part before the first `#` or `.`,
+ * or `div` when the selector starts with one.
+ *
+ * @example
+ * type Tag = SelectorTag<'button.btn#save'>; // 'button'
+ */
+export type SelectorTag<Selector extends string> =
+  Selector extends `${infer Tag}.${string}`
+    ? SelectorTag<Tag>
+    : Selector extends `${infer Tag}#${string}`
+    ? SelectorTag<Tag>
+    : Selector extends ''
+    ? 'div'
+    : Selector;
+
+/**
+ * The call signatures of `h`: a selector, then props and children or
+ * children only. Props are typed from the selector's tag.
+ */
+export interface HyperscriptFunction {
+  <Selector extends string>(
+    selector: Selector,
+    props?: MemoizedElementProps<SelectorTag<Selector>> | null,
+    ...children: React.ReactNode[]
+  ): React.ReactElement;
+  <Selector extends string>(
+    selector: Selector,
+    ...children: React.ReactNode[]
+  ): React.ReactElement;
+}
+
+type ParsedSelector = { tag: string; className?: string };
+
+// Parsed selector cache, like the element cache of createMemoizedElement.
+// Ids are often dynamic (`li#item-${id}`), so they are left out of the key
+const selectorCache = new Map<string, ParsedSelector>();
+
+const invalidSelector = (selector: string) =>
+  new TypeError(
+    `react-dom-functions: Invalid selector "${selector}"; use tag#id.class with non-empty names.`
+  );
+
+const parseSelector = (selector: string) => {
+  const ids = selector.match(/#[^.#]*/g) ?? [];
+  if (ids.length > 1) {
+    throw new TypeError(
+      `react-dom-functions: Selector "${selector}" has more than one id.`
+    );
+  }
+  const [idPart] = ids;
+  const id = idPart?.slice(1);
+  if (id === '') {
+    throw invalidSelector(selector);
+  }
+  const rest = idPart ? selector.replace(idPart, '') : selector;
+
+  let parsed = selectorCache.get(rest);
+  if (!parsed) {
+    const tag = /^[^.]*/.exec(rest)![0];
+    const classes = rest.slice(tag.length).split('.').slice(1);
+    if (classes.includes('')) {
+      throw invalidSelector(selector);
+    }
+    parsed = { tag: tag || 'div', className: classes.join(' ') || undefined };
+    selectorCache.set(rest, parsed);
+  }
+  return { ...parsed, id };
+};
+
+/**
+ * Creates an element from a CSS-like selector: a tag, then an optional
+ * `#id` and `.class` parts. The tag defaults to `div`.
+ *
+ * Selector classes are merged with the `className` prop, which takes clsx
+ * syntax as usual, and an `id` prop takes precedence over the selector's.
+ *
+ * @param selector - The selector, e.g. `'button.btn.primary#save'`
+ * @returns The element
+ *
+ * @example
+ * h('button.btn.primary#save', { className: { busy }, onClick: save }, 'Save');
+ * // Same as: button({ id: 'save', className: ['btn primary', { busy }], onClick: save }, 'Save')
+ */
+export const h: HyperscriptFunction = (
+  selector: string,
+  propsOrChildren?: BaseElementProps | React.ReactNode,
+  ...rest: React.ReactNode[]
+) => {
+  const { tag, id, className } = parseSelector(selector);
+  const [props, children] = resolveArguments<BaseElementProps>(
+    propsOrChildren,
+    rest
+  );
+
+  if (id === undefined && className === undefined) {
+    return createMemoizedElement(tag)(
+      props as ElementProps | null,
+      ...children
+    );
+  }
+  const merged: Record<string, unknown> = { ...props };
+  if (id !== undefined && merged.id === undefined) {
+    merged.id = id;
+  }
+  if (className !== undefined) {
+    merged.className =
+      props?.className === undefined ? className : [className, props.className];
+  }
+  return createMemoizedElement(tag)(merged as ElementProps, ...children);
+};
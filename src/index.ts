@@ -6,3 +6,41 @@ export * from './types';
 
 // Re-export utilities
 export * from './utils';
+
+// Re-export the hyperscript selector shorthand
+export { h } from './hyperscript';
+export type { HyperscriptFunction, SelectorTag } from './hyperscript';
+
+// Re-export variant-based element factories
+export { variants } from './variants';
+export type {
+  CompoundVariant,
+  VariantDefinitions,
+  VariantProps,
+  VariantsConfig,
+} from './variants';
+
+// Re-export form field binding
+export { bindPath } from './bind';
+export type { PathValue, StatePath } from './bind';
+
+// Re-export CSS Modules class name binding
+export { bindStyles } from './cssModules';
+export type { ModuleClassName } from './cssModules';
+
+// Re-export custom element factories
+export { defineCustomElement } from './customElement';
+export type {
+  CustomElementEventHandlers,
+  CustomElementEventNames,
+  CustomElementProps,
+} from './customElement';
+
+// Re-export prop-processing plugins
+export { createDOM } from './elementFactory';
+export { configure } from './plugins';
+export type { PluginOptions, PropsPlugin } from './plugins';
+
+// Re-export development checks
+export { configureDevChecks } from './dev';
+export type { DevChecks } from './dev';
@@ -0,0 +1,138 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { fromData } from './data';
+import { createDOM } from './elementFactory';
+import { formFromSchema } from './formSchema';
+import { button, div, span } from './htmlElements';
+import { html } from './htmlTemplate';
+import { configure, type PropsPlugin } from './plugins';
+import { asComponentFn, createMemoizedElement, defineComponent } from './utils';
+
+// Keeps the last of conflicting `p-*` classes, like tailwind-merge
+const mergePadding: PropsPlugin = (props) =>
+  typeof props.className === 'string'
+    ? {
+        ...props,
+        className: props.className
+          .split(' ')
+          .filter(
+            (name, index, names) =>
+              !name.startsWith('p-') ||
+              !names.slice(index + 1).some((next) => next.startsWith('p-'))
+          )
+          .join(' '),
+      }
+    : props;
+
+const testIds: PropsPlugin = (props, type) =>
+  typeof type === 'string' ? { 'data-testid': type, ...props } : props;
+
+describe('plugins', () => {
+  afterEach(() => configure({ plugins: [] }));
+
+  test('run in order on the resolved props of every factory', () => {
+    const calls: unknown[] = [];
+    const Card = ({ className }: { className?: string }) =>
+      div({ className }, 'Card');
+    configure({
+      plugins: [
+        mergePadding,
+        (props, type) => {
+          calls.push(type);
+          return props;
+        },
+      ],
+    });
+
+    const { container, getByText } = render(
+      div(
+        { className: ['p-2', { 'p-4': true }, 'rounded'] },
+        createMemoizedElement('section')({ className: 'p-1 p-3' }),
+        asComponentFn(Card)({ className: 'p-0 p-8' })
+      )
+    );
+
+    expect(container.firstChild).toHaveClass('p-4 rounded', { exact: true });
+    expect(container.querySelector('section')).toHaveClass('p-3', {
+      exact: true,
+    });
+    expect(getByText('Card')).toHaveClass('p-8', {
+      exact: true,
+    });
+    expect(calls).toContain('div');
+    expect(calls).toContain('section');
+    expect(calls).toContain(Card);
+  });
+
+  test('receive empty props for elements created without props', () => {
+    configure({ plugins: [testIds] });
+    const { getByTestId } = render(span('Text'));
+    expect(getByTestId('span')).toHaveTextContent('Text');
+  });
+
+  test('pass props through untouched when none are registered', () => {
+    const props = { className: 'a', onClick: () => {} };
+    const element = button(props, 'Save') as React.ReactElement<typeof props>;
+    expect(element.props.onClick).toBe(props.onClick);
+    expect(span().props).toEqual({});
+  });
+
+  test('apply to the elements of the other entry points', () => {
+    configure({ plugins: [testIds] });
+    const Form = defineComponent(() =>
+      formFromSchema<{ name: string }>(
+        [{ kind: 'text', name: 'name', label: 'Name' }],
+        { value: { name: '' } }
+      )
+    );
+
+    const { getByTestId } = render(
+      div(Form(), html`<aside>Note</aside>`, fromData(['article', 'Post']))
+    );
+
+    expect(getByTestId('form')).toBeInTheDocument();
+    expect(getByTestId('aside')).toHaveTextContent('Note');
+    expect(getByTestId('article')).toHaveTextContent('Post');
+  });
+
+  describe('createDOM', () => {
+    test('runs only its own plugins', () => {
+      configure({ plugins: [mergePadding] });
+      const dom = createDOM({ plugins: [testIds] });
+
+      const { getByTestId } = render(
+        div(dom.section(dom.button({ className: 'p-1 p-2' }, 'Save')))
+      );
+
+      expect(getByTestId('section')).toBeInTheDocument();
+      expect(getByTestId('button')).toHaveClass('p-1 p-2');
+      expect(
+        render(div({ className: 'p-1 p-2' })).container.firstChild
+      ).toHaveClass('p-2', { exact: true });
+    });
+
+    test('creates each element function once', async () => {
+      const dom = createDOM({ plugins: [] });
+      const { circle } = dom;
+
+      expect(dom.circle).toBe(circle);
+      expect(circle().type).toBe('circle');
+      await expect(Promise.resolve(dom)).resolves.toBe(dom);
+    });
+
+    test('throws for names that are not element tags', () => {
+      const dom = createDOM({ plugins: [] }) as unknown as Record<
+        string,
+        unknown
+      >;
+
+      expect(() => dom.var_).toThrow(
+        'createDOM() has no element function for "var_"'
+      );
+      expect(() => dom.fragment).toThrow(
+        'createDOM() has no element function for "fragment"'
+      );
+      expect(dom.var).toBeInstanceOf(Function);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import type { AnyComponent } from './types';
+
+// Prop-processing plugins
+//
+// Plugins run in order on the props of every element, after `className` and
+// `style` are resolved and before `React.createElement`. With no plugins
+// registered, the factories skip the pipeline entirely.
+
+/**
+ * Transforms the props of an element. Receives the tag, or the component for
+ * `asComponentFn` factories, and returns the props to use; `props` is a copy
+ * the plugin may change. Elements created without props get `{}`.
+ *
+ * @example
+ * const testIds: PropsPlugin = (props, type) =>
+ *   typeof type === 'string' && props.id
+ *     ? { ...props, 'data-testid': props.id }
+ *     : props;
+ */
+export type PropsPlugin = (
+  props: Record<string, unknown>,
+  type: string | AnyComponent
+) => Record<string, unknown>;
+
+export type PluginOptions = {
+  /** The plugins, run in order */
+  plugins?: readonly PropsPlugin[];
+};
+
+export const pluginConfig: { plugins: readonly PropsPlugin[] } = {
+  plugins: [],
+};
+
+/**
+ * Sets the plugins every element function and `asComponentFn` factory runs.
+ * Libraries should use `createDOM` instead, which keeps its plugins to the
+ * element functions it returns.
+ *
+ * @param options - The plugins; they replace any registered before
+ *
+ * @example
+ * configure({
+ *   plugins: [
+ *     (props) =>
+ *       typeof props.className === 'string'
+ *         ? { ...props, className: twMerge(props.className) }
+ *         : props,
+ *   ],
+ * });
+ */
+export const configure = ({ plugins = [] }: PluginOptions) => {
+  pluginConfig.plugins = plugins;
+};
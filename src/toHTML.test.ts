@@ -0,0 +1,266 @@
+import React from 'react';
+import {
+  a,
+  br,
+  button,
+  circle,
+  div,
+  fragment,
+  h1,
+  img,
+  input,
+  li,
+  option,
+  p,
+  script,
+  select,
+  span,
+  strong,
+  style,
+  svg,
+  table,
+  tbody,
+  td,
+  textarea,
+  tr,
+  ul,
+} from './htmlElements';
+import { toHTML } from './toHTML';
+import { defineComponent } from './utils';
+
+describe('toHTML', () => {
+  test('serializes elements, text and attributes', () => {
+    expect(
+      toHTML(
+        div(
+          { className: ['card', { active: true }], id: 'main', tabIndex: 0 },
+          h1('Title'),
+          p('Hello ', strong('world'))
+        )
+      )
+    ).toBe(
+      '<div class="card active" id="main" tabindex="0"><h1>Title</h1><p>Hello <strong>world</strong></p></div>'
+    );
+  });
+
+  test('escapes text and attribute values', () => {
+    expect(
+      toHTML(a({ href: '/?a=1&b="2"', title: "It's" }, '<script>&</script>'))
+    ).toBe(
+      '<a href="/?a=1&amp;b=&quot;2&quot;" title="It&#x27;s">&lt;script&gt;&amp;&lt;/script&gt;</a>'
+    );
+  });
+
+  test('skips attribute names that are not safe to write', () => {
+    expect(
+      toHTML(
+        React.createElement('div', {
+          ['x" onmouseover="alert(1)']: 'y',
+          'data-ok': 'yes',
+        })
+      )
+    ).toBe('<div data-ok="yes"></div>');
+  });
+
+  test('writes style and script text unescaped', () => {
+    expect(
+      toHTML(
+        fragment(
+          style('a > b { content: "</style><b>" }'),
+          script('if (a < b && c) {}')
+        )
+      )
+    ).toBe(
+      '<style>a > b { content: "<\\/style><b>" }</style><script>if (a < b && c) {}</script>'
+    );
+  });
+
+  test('handles void elements and boolean attributes', () => {
+    const tree = fragment(
+      input({
+        type: 'checkbox',
+        checked: true,
+        disabled: false,
+        readOnly: true,
+      }),
+      br(),
+      img({ src: '/a.png', alt: '' })
+    );
+
+    expect(toHTML(tree)).toBe(
+      '<input type="checkbox" checked readonly><br><img src="/a.png" alt="">'
+    );
+    expect(toHTML(tree, { xhtml: true })).toBe(
+      '<input type="checkbox" checked="checked" readonly="readonly" /><br /><img src="/a.png" alt="" />'
+    );
+  });
+
+  test('writes booleanish and aria attributes as strings', () => {
+    expect(
+      toHTML(
+        div({ 'aria-hidden': true, draggable: false, 'data-open': false }, 'x')
+      )
+    ).toBe(
+      '<div aria-hidden="true" draggable="false" data-open="false">x</div>'
+    );
+  });
+
+  test('converts style objects to CSS', () => {
+    expect(
+      toHTML(
+        div({
+          style: {
+            backgroundColor: 'red',
+            marginTop: 8,
+            lineHeight: 1.5,
+            padding: 0,
+            WebkitLineClamp: 2,
+            msTransform: 'none',
+            '--gap': '4px',
+            color: undefined,
+          } as React.CSSProperties,
+        })
+      )
+    ).toBe(
+      '<div style="background-color:red;margin-top:8px;line-height:1.5;padding:0;-webkit-line-clamp:2;-ms-transform:none;--gap:4px"></div>'
+    );
+  });
+
+  test('drops event handlers, keys, refs and null values', () => {
+    expect(
+      toHTML(
+        button(
+          {
+            key: 'save',
+            ref: React.createRef<HTMLButtonElement>(),
+            onClick: () => {},
+            title: undefined,
+            type: 'submit',
+          },
+          'Save'
+        )
+      )
+    ).toBe('<button type="submit">Save</button>');
+  });
+
+  test('drops event handlers given as strings, in any case', () => {
+    expect(
+      toHTML(
+        React.createElement('div', {
+          onclick: 'alert(1)',
+          ONMOUSEOVER: 'alert(2)',
+          title: 'x',
+        })
+      )
+    ).toBe('<div title="x"></div>');
+  });
+
+  test('renders function, class, memo and forwardRef components', () => {
+    const Greeting = ({ name }: { name: string }) => span('Hi ', name);
+    class Farewell extends React.Component<{ name: string }> {
+      render() {
+        return span('Bye ', this.props.name);
+      }
+    }
+    const Memoized = React.memo(Greeting);
+    const Forwarded = React.forwardRef<HTMLElement, { name: string }>(
+      ({ name }, ref) => strong({ ref }, name)
+    );
+    const card = defineComponent(({ title }: { title: string }, children) =>
+      div(h1(title), ...children)
+    );
+
+    expect(
+      toHTML(
+        div(
+          React.createElement(Greeting, { name: 'Ada' }),
+          React.createElement(Farewell, { name: 'Ada' }),
+          React.createElement(Memoized, { name: 'Grace' }),
+          React.createElement(Forwarded, { name: 'Alan' }),
+          card({ title: 'Card' }, p('Body'))
+        )
+      )
+    ).toBe(
+      '<div><span>Hi Ada</span><span>Bye Ada</span><span>Hi Grace</span><strong>Alan</strong><div><h1>Card</h1><p>Body</p></div></div>'
+    );
+  });
+
+  test('skips empty nodes and flattens iterables', () => {
+    expect(
+      toHTML(
+        ul(
+          null,
+          false,
+          new Set([li({ key: 'a' }, 'a'), li({ key: 'b' }, 'b')]),
+          [[li({ key: 1 }, 1)]],
+          ''
+        )
+      )
+    ).toBe('<ul><li>a</li><li>b</li><li>1</li></ul>');
+  });
+
+  test('renders form values as content and selected options', () => {
+    expect(
+      toHTML(
+        fragment(
+          textarea({ defaultValue: 'Hi <there>' }),
+          select(
+            { value: 'b', onChange: () => {} },
+            option({ value: 'a' }, 'A'),
+            option({ value: 'b' }, 'B')
+          ),
+          input({ defaultValue: 'Ada' })
+        )
+      )
+    ).toBe(
+      '<textarea>Hi &lt;there&gt;</textarea><select><option value="a">A</option><option value="b" selected>B</option></select><input value="Ada">'
+    );
+  });
+
+  test('keeps dangerouslySetInnerHTML as-is', () => {
+    expect(
+      toHTML(div({ dangerouslySetInnerHTML: { __html: '<b>raw</b>' } }))
+    ).toBe('<div><b>raw</b></div>');
+  });
+
+  test('writes SVG attributes with their SVG names', () => {
+    expect(
+      toHTML(
+        svg(
+          { viewBox: '0 0 10 10', className: 'icon' },
+          circle({ cx: 5, cy: 5, r: 4, strokeWidth: 2, fillOpacity: 0.5 })
+        )
+      )
+    ).toBe(
+      '<svg viewBox="0 0 10 10" class="icon"><circle cx="5" cy="5" r="4" stroke-width="2" fill-opacity="0.5"></circle></svg>'
+    );
+  });
+
+  test('pretty-prints block elements and keeps inline content together', () => {
+    const tree = table(tbody(tr(td('Total: ', strong('$5')), td(br()))));
+
+    expect(toHTML(tree, { pretty: true })).toBe(
+      [
+        '<table>',
+        '  <tbody>',
+        '    <tr>',
+        '      <td>Total: <strong>$5</strong></td>',
+        '      <td><br></td>',
+        '    </tr>',
+        '  </tbody>',
+        '</table>',
+      ].join('\n')
+    );
+    expect(toHTML(fragment(p('a'), p('b')), { pretty: '\t' })).toBe(
+      '<p>a</p>\n<p>b</p>'
+    );
+  });
+
+  test('rejects components that need a renderer', () => {
+    const Lazy = React.lazy(async () => ({ default: () => span('x') }));
+
+    expect(() => toHTML(React.createElement(Lazy))).toThrow(
+      'toHTML() cannot render lazy components'
+    );
+  });
+});
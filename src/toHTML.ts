@@ -0,0 +1,493 @@
+import React from 'react';
+import { cssDeclaration } from './cssDeclaration';
+import { VOID_ELEMENTS } from './voidElements';
+
+// Static HTML serialization
+//
+// Walks an element tree the way a server renderer would, without pulling in
+// `react-dom/server`. Function and class components are called once with
+// their props, so they must be pure: hooks, context and Suspense need a real
+// renderer.
+
+export type ToHTMLOptions = {
+  /**
+   * Puts block-level elements on their own lines, indented by two spaces or
+   * by the given string. Content that mixes text and inline elements stays
+   * on one line, so the added whitespace never changes how it renders.
+   */
+  pretty?: boolean | string;
+  /**
+   * Outputs XHTML-compatible markup, e.g. `<br />` and
+   * `disabled="disabled"`, for email clients that parse HTML as XML.
+   */
+  xhtml?: boolean;
+};
+
+type Context = {
+  indent: string;
+  xhtml: boolean;
+  svg: boolean;
+  // Values of the enclosing `select`, used to mark options as selected
+  selected?: string[];
+};
+
+const BOOLEAN_ATTRIBUTES = [
+  'allowfullscreen',
+  'async',
+  'autofocus',
+  'autoplay',
+  'checked',
+  'controls',
+  'default',
+  'defer',
+  'disabled',
+  'formnovalidate',
+  'hidden',
+  'inert',
+  'ismap',
+  'itemscope',
+  'loop',
+  'multiple',
+  'muted',
+  'nomodule',
+  'novalidate',
+  'open',
+  'playsinline',
+  'readonly',
+  'required',
+  'reversed',
+  'selected',
+];
+
+// Non-boolean attributes whose `true` and `false` values are meaningful
+const BOOLEANISH_ATTRIBUTES = ['contenteditable', 'draggable', 'spellcheck'];
+
+// React props that are not attributes
+const RESERVED_PROPS = [
+  'children',
+  'dangerouslySetInnerHTML',
+  'defaultChecked',
+  'defaultValue',
+  'suppressContentEditableWarning',
+  'suppressHydrationWarning',
+];
+
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  acceptCharset: 'accept-charset',
+  className: 'class',
+  htmlFor: 'for',
+  httpEquiv: 'http-equiv',
+  tabIndex: 'tabindex',
+};
+
+// SVG attributes that keep their camelCase name; other camelCase SVG props
+// are presentation attributes written in kebab-case
+const CAMEL_CASE_SVG_ATTRIBUTES = [
+  'attributeName',
+  'baseFrequency',
+  'clipPathUnits',
+  'diffuseConstant',
+  'filterUnits',
+  'gradientTransform',
+  'gradientUnits',
+  'kernelMatrix',
+  'keyPoints',
+  'keySplines',
+  'keyTimes',
+  'lengthAdjust',
+  'markerHeight',
+  'markerUnits',
+  'markerWidth',
+  'maskContentUnits',
+  'maskUnits',
+  'numOctaves',
+  'pathLength',
+  'patternContentUnits',
+  'patternTransform',
+  'patternUnits',
+  'preserveAspectRatio',
+  'primitiveUnits',
+  'refX',
+  'refY',
+  'repeatCount',
+  'repeatDur',
+  'specularConstant',
+  'specularExponent',
+  'spreadMethod',
+  'startOffset',
+  'stdDeviation',
+  'stitchTiles',
+  'surfaceScale',
+  'tableValues',
+  'targetX',
+  'targetY',
+  'textLength',
+  'viewBox',
+  'xChannelSelector',
+  'yChannelSelector',
+];
+
+// Elements whose children are laid out inline
+const INLINE_ELEMENTS = [
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'bdo',
+  'br',
+  'button',
+  'cite',
+  'code',
+  'data',
+  'dfn',
+  'em',
+  'i',
+  'img',
+  'input',
+  'kbd',
+  'label',
+  'mark',
+  'q',
+  's',
+  'samp',
+  'select',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'textarea',
+  'time',
+  'u',
+  'var',
+  'wbr',
+];
+
+// Elements whose content is whitespace-sensitive
+const PREFORMATTED = ['pre', 'textarea', 'script', 'style'];
+
+// Elements whose text is not parsed as HTML, so it is written unescaped
+const RAW_TEXT_ELEMENTS = ['script', 'style'];
+
+// Attribute names as React's server renderer checks them, less combining
+// marks: anything else could close the tag or add an attribute of its own
+const NAME_START =
+  ':A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD';
+const SAFE_ATTRIBUTE_NAME = new RegExp(
+  `^[${NAME_START}][${NAME_START}\\-.0-9\\u00B7\\u203F-\\u2040]*$`
+);
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#x27;',
+};
+
+const escapeHTML = (value: string) =>
+  value.replace(/[&<>"']/g, (character) => ESCAPES[character]);
+
+// Keeps raw text from ending its element early, e.g. a `</style>` in a
+// string inside the CSS
+const escapeRawText = (value: string) =>
+  value.replace(/<\/(script|style)/gi, '<\\/$1');
+
+const kebabCase = (name: string) =>
+  name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+/**
+ * Converts a React `style` object to a CSS declaration list.
+ */
+const styleToCSS = (style: Record<string, unknown>) =>
+  Object.keys(style)
+    .filter((name) => {
+      const value = style[name];
+      return value !== null && value !== undefined && value !== '';
+    })
+    .map((name) => cssDeclaration(name, style[name] as string | number))
+    .join(';');
+
+const attributeName = (name: string, svg: boolean) => {
+  if (ATTRIBUTE_NAMES[name]) {
+    return ATTRIBUTE_NAMES[name];
+  }
+  if (!svg || name.includes('-') || CAMEL_CASE_SVG_ATTRIBUTES.includes(name)) {
+    return svg ? name : name.toLowerCase();
+  }
+  // xlinkHref -> xlink:href, xmlLang -> xml:lang
+  const namespaced = /^(xlink|xml)([A-Z].*)$/.exec(name);
+  return namespaced
+    ? `${namespaced[1]}:${namespaced[2].toLowerCase()}`
+    : kebabCase(name);
+};
+
+const serializeAttributes = (
+  tag: string,
+  props: Record<string, unknown>,
+  context: Context
+) => {
+  const attributes: Record<string, unknown> = { ...props };
+  if (tag === 'input') {
+    attributes.value ??= props.defaultValue;
+    attributes.checked ??= props.defaultChecked;
+  }
+  if (tag === 'textarea' || tag === 'select') {
+    // Rendered as content and as selected options instead
+    delete attributes.value;
+  }
+  if (tag === 'option' && context.selected) {
+    const value = props.value ?? textContent(props.children);
+    attributes.selected ||= context.selected.includes(String(value));
+  }
+
+  return Object.keys(attributes)
+    .map((key) => {
+      const value = attributes[key];
+      if (
+        RESERVED_PROPS.includes(key) ||
+        value === null ||
+        value === undefined ||
+        typeof value === 'function' ||
+        typeof value === 'symbol' ||
+        // React ignores every longer name starting with "on", in any case
+        /^on./i.test(key)
+      ) {
+        return '';
+      }
+
+      const name = attributeName(key, context.svg);
+      if (!SAFE_ATTRIBUTE_NAME.test(name)) {
+        return '';
+      }
+      if (key === 'style' && typeof value === 'object') {
+        const css = styleToCSS(value as Record<string, unknown>);
+        return css ? ` style="${escapeHTML(css)}"` : '';
+      }
+      if (typeof value === 'boolean') {
+        if (
+          name.startsWith('aria-') ||
+          name.startsWith('data-') ||
+          BOOLEANISH_ATTRIBUTES.includes(name)
+        ) {
+          return ` ${name}="${value}"`;
+        }
+        if (!value || !BOOLEAN_ATTRIBUTES.includes(name)) {
+          return '';
+        }
+        return context.xhtml ? ` ${name}="${name}"` : ` ${name}`;
+      }
+      if (BOOLEAN_ATTRIBUTES.includes(name) && value === '') {
+        return '';
+      }
+      return ` ${name}="${escapeHTML(String(value))}"`;
+    })
+    .join('');
+};
+
+// The text of a subtree, for options without a value
+const textContent = (node: unknown): string => {
+  if (typeof node === 'string' || typeof node === 'number') {
+    return String(node);
+  }
+  if (Array.isArray(node)) {
+    return node.map(textContent).join('');
+  }
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) {
+    return textContent(node.props.children);
+  }
+  return '';
+};
+
+// Renders a component once, without hooks or context
+const renderComponent = (
+  type: unknown,
+  props: Record<string, unknown>
+): React.ReactNode => {
+  if (typeof type === 'function') {
+    if (type.prototype?.isReactComponent) {
+      const Component = type as new (
+        props: Record<string, unknown>
+      ) => React.Component;
+      return new Component(props).render();
+    }
+    // React passes the legacy context as the second argument
+    return (type as (props: unknown, context: unknown) => React.ReactNode)(
+      props,
+      {}
+    );
+  }
+
+  const exotic = type as {
+    $$typeof?: symbol;
+    type?: unknown;
+    render?: (props: unknown, ref: unknown) => React.ReactNode;
+  };
+  if (exotic.$$typeof === Symbol.for('react.memo')) {
+    return renderComponent(exotic.type, props);
+  }
+  if (exotic.$$typeof === Symbol.for('react.forward_ref') && exotic.render) {
+    return exotic.render(props, null);
+  }
+  if (
+    typeof type === 'symbol' ||
+    ((exotic.$$typeof === Symbol.for('react.provider') ||
+      exotic.$$typeof === Symbol.for('react.context')) &&
+      typeof props.children !== 'function')
+  ) {
+    // Fragments, StrictMode, Suspense, Profiler and context providers
+    return props.children as React.ReactNode;
+  }
+  throw new TypeError(
+    'react-dom-functions: toHTML() cannot render lazy components or context consumers. Use react-dom/server instead.'
+  );
+};
+
+const isInline = (node: unknown) =>
+  typeof node === 'string' ||
+  typeof node === 'number' ||
+  (React.isValidElement(node) &&
+    typeof node.type === 'string' &&
+    INLINE_ELEMENTS.includes(node.type));
+
+// Resolves components, fragments and iterables down to a flat list of
+// text and host elements
+const flatten = (node: unknown, nodes: unknown[] = []): unknown[] => {
+  if (
+    node === null ||
+    node === undefined ||
+    typeof node === 'boolean' ||
+    node === ''
+  ) {
+    return nodes;
+  }
+  if (typeof node === 'string' || typeof node === 'number') {
+    nodes.push(node);
+  } else if (React.isValidElement<Record<string, unknown>>(node)) {
+    if (typeof node.type === 'string') {
+      nodes.push(node);
+    } else {
+      flatten(renderComponent(node.type, node.props), nodes);
+    }
+  } else if (typeof node === 'object' && Symbol.iterator in node) {
+    for (const child of node as Iterable<unknown>) {
+      flatten(child, nodes);
+    }
+  } else if (
+    (node as { $$typeof?: symbol }).$$typeof === Symbol.for('react.portal')
+  ) {
+    throw new TypeError('react-dom-functions: toHTML() cannot render portals.');
+  }
+  return nodes;
+};
+
+const serializeElement = (
+  element: React.ReactElement<Record<string, unknown>> & { type: string },
+  context: Context,
+  depth: number
+): string => {
+  const tag = element.type;
+  const { props } = element;
+  const svg = tag === 'svg' || context.svg;
+  const childContext: Context = {
+    ...context,
+    svg: svg && tag !== 'foreignObject',
+  };
+  if (tag === 'select') {
+    const value = props.value ?? props.defaultValue;
+    childContext.selected =
+      value === undefined || value === null
+        ? undefined
+        : ([] as unknown[]).concat(value).map(String);
+  }
+
+  const open = `<${tag}${serializeAttributes(tag, props, { ...context, svg })}`;
+  if (VOID_ELEMENTS.includes(tag)) {
+    return context.xhtml ? `${open} />` : `${open}>`;
+  }
+
+  const html = props.dangerouslySetInnerHTML as { __html?: string } | undefined;
+  if (html) {
+    return `${open}>${html.__html ?? ''}</${tag}>`;
+  }
+  if (RAW_TEXT_ELEMENTS.includes(tag)) {
+    return `${open}>${escapeRawText(textContent(props.children))}</${tag}>`;
+  }
+  if (tag === 'textarea') {
+    const value = props.value ?? props.defaultValue ?? props.children;
+    return `${open}>${escapeHTML(textContent(value))}</${tag}>`;
+  }
+
+  const children = flatten(props.children);
+  if (
+    !context.indent ||
+    children.length === 0 ||
+    PREFORMATTED.includes(tag) ||
+    children.some(isInline)
+  ) {
+    const inline = { ...childContext, indent: '' };
+    return `${open}>${children
+      .map((child) => serializeNode(child, inline, 0))
+      .join('')}</${tag}>`;
+  }
+
+  const padding = context.indent.repeat(depth);
+  const content = children
+    .map(
+      (child) =>
+        `${padding}${context.indent}${serializeNode(
+          child,
+          childContext,
+          depth + 1
+        )}`
+    )
+    .join('\n');
+  return `${open}>\n${content}\n${padding}</${tag}>`;
+};
+
+const serializeNode = (
+  node: unknown,
+  context: Context,
+  depth: number
+): string =>
+  React.isValidElement<Record<string, unknown>>(node) &&
+  typeof node.type === 'string'
+    ? serializeElement(
+        node as Parameters<typeof serializeElement>[0],
+        context,
+        depth
+      )
+    : escapeHTML(String(node));
+
+/**
+ * Serializes an element tree to static HTML, without `react-dom/server`.
+ *
+ * Elements, fragments, iterables, and function, class, `memo` and
+ * `forwardRef` components are supported. Components are called once with
+ * their props, so they cannot use hooks or context. Event handlers, `key`
+ * and `ref` are dropped; `style` objects become CSS strings.
+ *
+ * @param tree - The node to serialize
+ * @param options - Pretty-printing and XHTML output
+ * @returns The HTML string
+ *
+ * @example
+ * toHTML(p({ className: 'greeting' }, 'Hello ', strong(name)));
+ * // '<p class="greeting">Hello <strong>Ada</strong></p>'
+ *
+ * toHTML(table(tbody(tr(td('Total')))), { pretty: true, xhtml: true });
+ */
+export const toHTML = (
+  tree: React.ReactNode,
+  options: ToHTMLOptions = {}
+): string => {
+  const { pretty = false, xhtml = false } = options;
+  const context: Context = {
+    indent: pretty === true ? '  ' : pretty || '',
+    xhtml,
+    svg: false,
+  };
+  const nodes = flatten(tree);
+  const separator = context.indent && !nodes.some(isInline) ? '\n' : '';
+  return nodes.map((node) => serializeNode(node, context, 0)).join(separator);
+};
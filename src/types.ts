@@ -1,10 +1,13 @@
 import React, { ReactNode } from 'react';
+import type { ClassValue } from 'clsx';
 
 /**
  * A function component type that returns a DOM element.
  *
  * Use this type where you would normally use React.FC, but for components that return DOM elements
- * (e.g., when using function-based DOM element factories).
+ * (e.g., when using function-based DOM element factories). Like any React component, a DOMFC
+ * receives its children on `props.children`; use `defineComponent` for components that should
+ * also be callable like the element functions.
  *
  * @template Props - The props for the component. Defaults to an empty object.
  */
@@ -12,6 +15,90 @@ export type DOMFC<Props = Record<string, never>> = React.FC<
   Props & { children?: ReactNode }
 >;
 
+/**
+ * The call signatures of a `defineComponent` component. Children-only calls
+ * are allowed when every prop is optional.
+ */
+export type ComponentFactory<
+  Props,
+  Child = ReactNode
+> = Partial<Props> extends Props
+  ? {
+      (...children: Child[]): React.ReactElement;
+      (
+        props?: (Props & React.Attributes) | null,
+        ...children: Child[]
+      ): React.ReactElement;
+    }
+  : {
+      (
+        props: Props & React.Attributes,
+        ...children: Child[]
+      ): React.ReactElement;
+    };
+
+// Any component React can render: function and class components, and the
+// exotic components returned by `memo`, `forwardRef` and `lazy`
+export type AnyComponent =
+  | React.JSXElementConstructor<never>
+  | React.ExoticComponent<never>;
+
+/**
+ * The props a component accepts, including `ref` for class components and
+ * components that forward refs.
+ */
+export type ComponentPropsOf<C extends AnyComponent> = C extends new (
+  props: infer Props
+) => infer Instance
+  ? Props & React.RefAttributes<Instance>
+  : C extends (props: infer Props) => unknown
+  ? Props
+  : never;
+
+/**
+ * Like `WithClsxClassName`, but only for props that have a `className`, and
+ * applied to each member of a union so discriminated unions survive.
+ */
+export type WithClsxClassNameIfPresent<Props> = Props extends unknown
+  ? 'className' extends keyof Props
+    ? WithClsxClassName<Props>
+    : Props
+  : never;
+
+/**
+ * Like `WithStyleValue`, but only for props that have a `style`, and applied
+ * to each member of a union.
+ */
+export type WithStyleValueIfPresent<Props> = Props extends unknown
+  ? 'style' extends keyof Props
+    ? WithStyleValue<Props>
+    : Props
+  : never;
+
+/**
+ * Props accepted by the function created by `asComponentFn` for a component.
+ */
+export type ComponentFnProps<C extends AnyComponent> = WithStyleValueIfPresent<
+  WithClsxClassNameIfPresent<ComponentPropsOf<C>>
+>;
+
+/**
+ * A component created with `defineComponent`. It is called like the element
+ * functions (`section({ title }, a, b)`); its `Component` is the React
+ * component type (`React.createElement(section.Component, { title }, a, b)`).
+ *
+ * @template Props - The props for the component, without children.
+ * @template Child - The type of each child.
+ */
+export type DefinedComponent<Props, Child = ReactNode> = ComponentFactory<
+  Props,
+  Child
+> & {
+  displayName?: string;
+  /** The React component that renders `render`. */
+  Component: React.FC<Props & { children?: Child | Child[] }>;
+};
+
 // Base element props type
 export type BaseElementProps = {
   [key: string]: unknown;
@@ -20,86 +107,259 @@ export type BaseElementProps = {
    * Accepts clsx syntax for conditional and dynamic class names.
    * See: https://github.com/lukeed/clsx
    */
-  className?: string | string[] | Record<string, boolean> | null | undefined;
+  className?: ClsxClassName;
+  /**
+   * A style object, or an array of them merged in order. Falsy entries are
+   * skipped.
+   */
+  style?: StyleValue;
 };
 
 // Override React's className type to support clsx
-export type ClsxClassName =
-  | string
-  | string[]
-  | Record<string, boolean>
+export type ClsxClassName = ClassValue;
+
+/**
+ * A React style object that also accepts CSS custom properties.
+ */
+export type StyleObject = React.CSSProperties & {
+  [property: `--${string}`]: string | number | undefined;
+};
+
+/**
+ * The `style` prop of the element functions: a style object, or a nested
+ * array of them with falsy entries for conditional styles.
+ *
+ * @example
+ * div({ style: [base, active && highlighted, { '--gap': 4 }] });
+ */
+export type StyleValue =
+  | React.CSSProperties
+  | StyleObject
+  | readonly StyleValue[]
+  | false
   | null
   | undefined;
 
+// Tags React ships intrinsic prop types for
+export type IntrinsicTag = keyof React.JSX.IntrinsicElements;
+
+// `data-*` attributes are passed through to the DOM untouched
+export type DataAttributes = {
+  [key: `data-${string}`]: string | number | boolean | null | undefined;
+};
+
+// ARIA attributes that take a space-separated list of element ids
+type AriaIdListName =
+  | 'controls'
+  | 'describedby'
+  | 'details'
+  | 'flowto'
+  | 'labelledby'
+  | 'owns';
+
+/**
+ * The `aria` shorthand: ARIA attributes without their `aria-` prefix, typed
+ * from React's list of WAI-ARIA attributes. Id list attributes also take
+ * arrays of ids.
+ */
+export type AriaShorthand = {
+  [Attribute in keyof React.AriaAttributes as Attribute extends `aria-${infer Name}`
+    ? Name
+    : never]?: Attribute extends `aria-${AriaIdListName}`
+    ? React.AriaAttributes[Attribute] | readonly string[]
+    : React.AriaAttributes[Attribute];
+};
+
+/**
+ * The `data` and `aria` props of the element functions, expanded into
+ * `data-*` and `aria-*` attributes.
+ *
+ * @example
+ * button({ data: { testId: 'menu' }, aria: { expanded: open, controls: ['menu-list'] } });
+ * // <button data-test-id="menu" aria-expanded="false" aria-controls="menu-list">
+ */
+export type AttributeShorthands = {
+  /** `data-*` attributes by name; camelCase names become kebab-case */
+  data?: Record<string, string | number | boolean | null | undefined>;
+  /** `aria-*` attributes by name; booleans become `"true"`/`"false"` */
+  aria?: AriaShorthand;
+};
+
+// The shorthands for a props type, without `data` when the element already
+// has a `data` attribute, e.g. `<object>`
+type AttributeShorthandsFor<Props> = 'data' extends keyof Props
+  ? Omit<AttributeShorthands, 'data'>
+  : AttributeShorthands;
+
+/**
+ * A `[value, setValue]` tuple for the `bind` prop of form fields, e.g. the
+ * tuple returned by `useState`.
+ */
+export type Binding<Value> = readonly [
+  value: Value,
+  setValue: (value: Value) => void
+];
+
+// Input types whose value is edited as a string
+type TextInputType =
+  | 'text'
+  | 'email'
+  | 'password'
+  | 'search'
+  | 'tel'
+  | 'url'
+  | 'date'
+  | 'time'
+  | 'datetime-local'
+  | 'month'
+  | 'week'
+  | 'color'
+  | 'hidden';
+
+/**
+ * The `bind` prop of `input`, typed by the input's `type`: a boolean for
+ * checkboxes, the group's value for radios, a number for number and range
+ * inputs, and a string for text-like inputs. Other types cannot be bound.
+ */
+export type InputBinding =
+  | { type: 'checkbox'; bind?: Binding<boolean> }
+  | { type: 'radio'; bind?: Binding<string> }
+  | { type: 'number' | 'range'; bind?: Binding<number> }
+  | { type?: TextInputType; bind?: Binding<string> }
+  | { type?: React.HTMLInputTypeAttribute; bind?: undefined };
+
+/**
+ * The `bind` prop of `select`: the selected values for `multiple` selects,
+ * the selected value otherwise.
+ */
+export type SelectBinding =
+  | { multiple: true; bind?: Binding<string[]> }
+  | { multiple?: false; bind?: Binding<string> }
+  | { multiple?: boolean; bind?: undefined };
+
+/**
+ * The `bind` prop of a tag, for the form fields that have one.
+ */
+export type BindingPropsFor<Tag extends string> = Tag extends 'input'
+  ? InputBinding
+  : Tag extends 'select'
+  ? SelectBinding
+  : Tag extends 'textarea'
+  ? { bind?: Binding<string> }
+  : unknown;
+
+/**
+ * The props React declares for a tag, falling back to generic HTML attributes
+ * for tags React has no intrinsic entry for (e.g. `rb`, MathML).
+ */
+export type IntrinsicProps<Tag extends string> = Tag extends IntrinsicTag
+  ? React.JSX.IntrinsicElements[Tag]
+  : React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement>;
+
+/**
+ * Replaces the `className` of a props type with the clsx-powered one.
+ */
+export type WithClsxClassName<Props> = Omit<Props, 'className'> & {
+  /**
+   * Accepts clsx syntax for conditional and dynamic class names.
+   * See: https://github.com/lukeed/clsx
+   */
+  className?: ClsxClassName;
+};
+
+/**
+ * Replaces the `style` of a props type with one that accepts arrays.
+ */
+export type WithStyleValue<Props> = Omit<Props, 'style'> & {
+  /**
+   * A style object, or an array of them merged in order. Falsy entries are
+   * skipped.
+   */
+  style?: StyleValue;
+};
+
+/**
+ * Props accepted by the element function for a given tag.
+ *
+ * @template Tag - The tag name, e.g. `'div'` or `'button'`.
+ */
+export type ElementPropsFor<Tag extends string> = WithStyleValue<
+  WithClsxClassName<IntrinsicProps<Tag>>
+> &
+  DataAttributes &
+  AttributeShorthandsFor<IntrinsicProps<Tag>> &
+  BindingPropsFor<Tag>;
+
+/**
+ * The call signature shared by every element function: either props followed
+ * by children, or children only.
+ *
+ * @template Props - The props the element accepts.
+ */
+export interface ElementFunction<Props> {
+  (props?: Props | null, ...children: React.ReactNode[]): React.ReactElement;
+  (...children: React.ReactNode[]): React.ReactElement;
+}
+
+/**
+ * The element function for a given tag.
+ */
+export type ElementFunctionFor<Tag extends string> = ElementFunction<
+  ElementPropsFor<Tag>
+>;
+
+/**
+ * The element functions returned by `createDOM`, by tag.
+ */
+export type DOMFunctions = {
+  readonly [Tag in IntrinsicTag]: ElementFunctionFor<Tag>;
+};
+
+// SVG tags, as listed by the DOM's SVGElementTagNameMap
+export type SVGTag = keyof SVGElementTagNameMap;
+
+/**
+ * Props accepted by the element function for an SVG tag: React's SVG
+ * attributes, with event handlers typed to the SVG element itself.
+ *
+ * @template Tag - The SVG tag name, e.g. `'circle'` or `'linearGradient'`.
+ */
+export type SVGElementPropsFor<Tag extends SVGTag> = WithStyleValue<
+  WithClsxClassName<React.SVGProps<SVGElementTagNameMap[Tag]>>
+> &
+  DataAttributes &
+  AttributeShorthands;
+
+/**
+ * The element function for a given SVG tag.
+ */
+export type SVGElementFunctionFor<Tag extends SVGTag> = ElementFunction<
+  SVGElementPropsFor<Tag>
+>;
+
 // Specific element prop types for better type safety
-export type DivProps = BaseElementProps &
-  Omit<React.HTMLAttributes<HTMLDivElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type SpanProps = BaseElementProps &
-  Omit<React.HTMLAttributes<HTMLSpanElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type ButtonProps = BaseElementProps &
-  Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type InputProps = BaseElementProps &
-  Omit<React.InputHTMLAttributes<HTMLInputElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type FormProps = BaseElementProps &
-  Omit<React.FormHTMLAttributes<HTMLFormElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type AnchorProps = BaseElementProps &
-  Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type ImageProps = BaseElementProps &
-  Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type ParagraphProps = BaseElementProps &
-  Omit<React.HTMLAttributes<HTMLParagraphElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type HeadingProps = BaseElementProps &
-  Omit<React.HTMLAttributes<HTMLHeadingElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type ListProps = BaseElementProps &
-  Omit<
-    React.OlHTMLAttributes<HTMLOListElement> &
-      React.HTMLAttributes<HTMLUListElement>,
-    'className'
-  > & { className?: ClsxClassName };
-export type ListItemProps = BaseElementProps &
-  Omit<React.LiHTMLAttributes<HTMLLIElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type TableProps = BaseElementProps &
-  Omit<React.TableHTMLAttributes<HTMLTableElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type TableCellProps = BaseElementProps &
-  Omit<
-    React.TdHTMLAttributes<HTMLTableDataCellElement> &
-      React.ThHTMLAttributes<HTMLTableHeaderCellElement>,
-    'className'
-  > & { className?: ClsxClassName };
-export type TextAreaProps = BaseElementProps &
-  Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type SelectProps = BaseElementProps &
-  Omit<React.SelectHTMLAttributes<HTMLSelectElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
-export type LabelProps = BaseElementProps &
-  Omit<React.LabelHTMLAttributes<HTMLLabelElement>, 'className'> & {
-    className?: ClsxClassName;
-  };
+export type DivProps = ElementPropsFor<'div'>;
+export type SpanProps = ElementPropsFor<'span'>;
+export type ButtonProps = ElementPropsFor<'button'>;
+export type InputProps = ElementPropsFor<'input'>;
+export type FormProps = ElementPropsFor<'form'>;
+export type AnchorProps = ElementPropsFor<'a'>;
+export type ImageProps = ElementPropsFor<'img'>;
+export type ParagraphProps = ElementPropsFor<'p'>;
+export type HeadingProps = ElementPropsFor<'h1'>;
+export type ListProps = ElementPropsFor<'ol'>;
+export type ListItemProps = ElementPropsFor<'li'>;
+export type TableProps = ElementPropsFor<'table'>;
+export type TableCellProps = ElementPropsFor<'td'> & ElementPropsFor<'th'>;
+export type TextAreaProps = ElementPropsFor<'textarea'>;
+export type SelectProps = ElementPropsFor<'select'>;
+export type LabelProps = ElementPropsFor<'label'>;
+export type SVGProps = SVGElementPropsFor<'svg'>;
+export type GroupProps = SVGElementPropsFor<'g'>;
+export type PathProps = SVGElementPropsFor<'path'>;
+export type CircleProps = SVGElementPropsFor<'circle'>;
+export type RectProps = SVGElementPropsFor<'rect'>;
+export type TextProps = SVGElementPropsFor<'text'>;
 
 // Union type for all element props
 export type ElementProps =
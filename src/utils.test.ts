@@ -0,0 +1,451 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { div, h2, li, span, ul } from './htmlElements';
+import {
+  asComponentFn,
+  asComponentFnWithChildren,
+  conditional,
+  defineComponent,
+  each,
+  mapWithKeys,
+  match,
+  show,
+  switchCase,
+} from './utils';
+
+describe('Utilities', () => {
+  describe('conditional', () => {
+    test('keeps falsy fallbacks such as 0', () => {
+      expect(conditional(false, 'yes', 0)).toBe(0);
+      expect(conditional(false, 'yes', '')).toBe('');
+      expect(conditional(false, 'yes')).toBeNull();
+    });
+  });
+
+  describe('show', () => {
+    test('renders lazily and narrows the value', () => {
+      const renderUser = jest.fn((user: { name: string }) => span(user.name));
+      const fallback = jest.fn(() => 'Signed out');
+      const user = null as { name: string } | null;
+
+      expect(show(user, renderUser, fallback)).toBe('Signed out');
+      expect(renderUser).not.toHaveBeenCalled();
+
+      const { container } = render(show({ name: 'Ada' }, renderUser, fallback));
+      expect(container).toHaveTextContent('Ada');
+      expect(fallback).toHaveBeenCalledTimes(1);
+    });
+
+    test('returns null without a fallback', () => {
+      expect(show(0, () => 'never')).toBeNull();
+      expect(
+        show(
+          '',
+          () => 'never',
+          () => 0
+        )
+      ).toBe(0);
+    });
+  });
+
+  describe('switchCase', () => {
+    type Status = 'loading' | 'success' | 'error';
+
+    test('renders the matching case', () => {
+      const status = 'success' as Status;
+      const node = switchCase(status, {
+        loading: () => 'Loading...',
+        success: () => 'Done',
+        error: () => 'Failed',
+      });
+
+      expect(node).toBe('Done');
+    });
+
+    test('requires every case', () => {
+      const status = 'success' as Status;
+      // @ts-expect-error - the error case is missing
+      switchCase(status, { loading: () => 'Loading', success: () => 'Done' });
+    });
+  });
+
+  describe('match', () => {
+    type Result =
+      | { status: 'ok'; data: string }
+      | { status: 'error'; message: string };
+
+    test('renders the case for the member with narrowed props', () => {
+      const result = { status: 'error', message: 'Nope' } as Result;
+      const { container } = render(
+        div(
+          match(result, 'status', {
+            ok: ({ data }) => span(data),
+            error: ({ message }) => span({ role: 'alert' }, message),
+          })
+        )
+      );
+
+      expect(container.querySelector('[role="alert"]')).toHaveTextContent(
+        'Nope'
+      );
+    });
+
+    test('requires every member to be handled', () => {
+      const result = { status: 'ok', data: 'Yes' } as Result;
+      // @ts-expect-error - the error member is missing
+      match(result, 'status', { ok: ({ data }) => data });
+      match(result, 'status', {
+        ok: ({ data }) => data,
+        // @ts-expect-error - error members have no data
+        error: ({ data }) => data,
+      });
+    });
+  });
+
+  describe('each', () => {
+    const todos = [
+      { id: 'a', text: 'Write' },
+      { id: 'b', text: 'Test' },
+    ];
+
+    test('renders keyed items', () => {
+      const nodes = each(todos, {
+        key: (todo) => todo.id,
+        render: (todo) => li(todo.text),
+      });
+      const { container } = render(ul(nodes));
+
+      expect(container.querySelectorAll('li')).toHaveLength(2);
+      expect((nodes as React.ReactElement[]).map((node) => node.key)).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+
+    test('renders the empty state for empty or missing items', () => {
+      const options = {
+        key: (todo: { id: string }) => todo.id,
+        render: () => li('Item'),
+        empty: () => li('Nothing to do'),
+      };
+
+      expect(each([], options)).toEqual(li('Nothing to do'));
+      expect(each(null, options)).toEqual(li('Nothing to do'));
+      expect(each([], { ...options, empty: undefined })).toBeNull();
+    });
+
+    test('accepts primitives and iterables', () => {
+      const { container } = render(
+        ul(
+          each(new Set(['x', 'y']), {
+            key: (item) => item,
+            render: (item) => item,
+          })
+        )
+      );
+      expect(container).toHaveTextContent('xy');
+    });
+  });
+
+  describe('mapWithKeys', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    test('keys primitives, nulls and arrays with fragments', () => {
+      const nodes = mapWithKeys(
+        ['text', 1, null, ['a', 'b']] as React.ReactNode[],
+        (item) => item,
+        (_item, index) => `node-${index}`
+      );
+
+      expect(nodes.map((node) => (node as React.ReactElement).key)).toEqual([
+        'node-0',
+        'node-1',
+        'node-2',
+        'node-3',
+      ]);
+      const { container } = render(div(nodes));
+      expect(container).toHaveTextContent('text1ab');
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    test('reuses elements rendered with the key instead of cloning', () => {
+      const rendered: React.ReactElement[] = [];
+      const nodes = mapWithKeys(
+        [{ id: 7 }, { id: 8 }],
+        (item, _index, key) => {
+          const node = li({ key }, item.id);
+          rendered.push(node);
+          return node;
+        },
+        (item) => item.id
+      );
+
+      expect(nodes[0]).toBe(rendered[0]);
+      expect(nodes[1]).toBe(rendered[1]);
+    });
+
+    test('clones elements rendered without the key', () => {
+      const nodes = mapWithKeys(
+        ['x'],
+        (item) => li(item),
+        () => 'item-x'
+      );
+
+      expect((nodes[0] as React.ReactElement).key).toBe('item-x');
+    });
+
+    test('keeps keys set by the render function without a key function', () => {
+      const nodes = mapWithKeys(['p', 'q'], (item) => li({ key: item }, item));
+
+      expect(nodes.map((node) => (node as React.ReactElement).key)).toEqual([
+        'p',
+        'q',
+      ]);
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    test('warns about index keys', () => {
+      const nodes = mapWithKeys(['r', 's'], (item) => li(item));
+
+      expect(nodes.map((node) => (node as React.ReactElement).key)).toEqual([
+        '0',
+        '1',
+      ]);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('fell back to index keys')
+      );
+    });
+
+    test('warns about duplicate keys with the colliding items', () => {
+      const users = [
+        { id: 'dup', name: 'Ada' },
+        { id: 'other', name: 'Grace' },
+        { id: 'dup', name: 'Alan' },
+      ];
+      mapWithKeys(
+        users,
+        (user) => li(user.name),
+        (user) => user.id
+      );
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'key "dup" for more than one item (indexes 0, 2)'
+        ),
+        [users[0], users[2]]
+      );
+    });
+  });
+
+  describe('defineComponent', () => {
+    type SectionProps = { title: string };
+
+    const section = defineComponent(function Section(
+      { title }: SectionProps,
+      children
+    ) {
+      return div({ className: 'section' }, h2(title), ...children);
+    });
+
+    test('receives children when called like an element function', () => {
+      const { container } = render(
+        section({ title: 'Intro' }, span('First'), span('Second'))
+      );
+      const root = container.firstChild as HTMLElement;
+
+      expect(root).toHaveClass('section');
+      expect(root.querySelector('h2')).toHaveTextContent('Intro');
+      expect(root.querySelectorAll('span')).toHaveLength(2);
+    });
+
+    test('receives children when rendered as a component type', () => {
+      const { container } = render(
+        React.createElement(
+          section.Component,
+          { title: 'Intro' },
+          span('First'),
+          span('Second')
+        )
+      );
+
+      expect(container.querySelector('h2')).toHaveTextContent('Intro');
+      expect(container.querySelectorAll('span')).toHaveLength(2);
+    });
+
+    test('reads props-and-child calls as direct calls', () => {
+      const { container } = render(
+        div(
+          section({ title: 'Empty' }, undefined),
+          asComponentFn(section)({ title: 'Wrapped' }, span('Only'))
+        )
+      );
+
+      expect(container.querySelectorAll('h2')).toHaveLength(2);
+      expect(container.querySelectorAll('span')).toHaveLength(1);
+      expect(container).toHaveTextContent('EmptyWrappedOnly');
+    });
+
+    test('passes children as an array whichever way it is used', () => {
+      const seen: unknown[] = [];
+      const list = defineComponent((_props, children) => {
+        seen.push(children);
+        return ul(children.map((child, index) => li({ key: index }, child)));
+      });
+
+      render(list('Only'));
+      render(list.Component({ children: 'Only' }) as React.ReactElement);
+      render(React.createElement(list.Component, null, 'One', 'Two'));
+
+      expect(seen).toEqual([['Only'], ['Only'], ['One', 'Two']]);
+    });
+
+    test('supports hooks and props-less calls', () => {
+      const counter = defineComponent(function Counter() {
+        const [count] = React.useState(3);
+        return span(`Count: ${count}`);
+      });
+
+      const { container } = render(div(counter(), counter({ key: 'second' })));
+      expect(container.querySelectorAll('span')).toHaveLength(2);
+      expect(container).toHaveTextContent('Count: 3Count: 3');
+    });
+
+    test('uses the render function name as displayName', () => {
+      expect(section.displayName).toBe('Section');
+      expect(section.Component.displayName).toBe('Section');
+      expect(defineComponent(() => null, 'Custom').displayName).toBe('Custom');
+    });
+
+    test('infers props and children types', () => {
+      const tag = defineComponent(
+        ({ tone }: { tone?: 'info' | 'warn' }, children: string[]) =>
+          span({ className: tone }, children.join(' '))
+      );
+
+      expect(tag({ tone: 'info' }, 'a', 'b')).toBeDefined();
+      expect(tag('a')).toBeDefined();
+      // @ts-expect-error - tone is a union of known values
+      tag({ tone: 'error' });
+      // @ts-expect-error - children must be strings
+      tag({}, span('x'));
+      // @ts-expect-error - title is required
+      section(span('x'));
+    });
+  });
+
+  describe('asComponentFn', () => {
+    interface CardProps {
+      title: string;
+      className?: string;
+      children?: React.ReactNode;
+    }
+
+    const Card = ({ title, className, children }: CardProps) =>
+      div({ className: ['card', className] }, h2(title), children);
+
+    test('infers props from the component', () => {
+      const card = asComponentFn(Card);
+      const { container } = render(card({ title: 'Hello' }, span('Body')));
+
+      expect(container.querySelector('h2')).toHaveTextContent('Hello');
+      expect(container.querySelector('span')).toHaveTextContent('Body');
+      // @ts-expect-error - title is required
+      card(span('Body'));
+      // @ts-expect-error - title must be a string
+      card({ title: 1 });
+    });
+
+    test('processes className with clsx', () => {
+      const card = asComponentFn(Card);
+      const { container } = render(
+        card({ title: 'Hello', className: ['featured', { hidden: false }] })
+      );
+
+      expect(container.firstChild).toHaveClass('card featured');
+      expect(container.firstChild).not.toHaveClass('hidden');
+    });
+
+    test('accepts discriminated union props', () => {
+      type StatusProps =
+        | { kind: 'ok' }
+        | { kind: 'error'; message: string; className?: string };
+      const Status = (props: StatusProps) =>
+        span(props.kind === 'ok' ? 'OK' : props.message);
+      const status = asComponentFn(Status);
+
+      const { container } = render(
+        div(status({ kind: 'ok' }), status({ kind: 'error', message: 'Nope' }))
+      );
+      expect(container).toHaveTextContent('OKNope');
+      // @ts-expect-error - message is required for errors
+      status({ kind: 'error' });
+    });
+
+    test('supports memo and forwardRef components with refs', () => {
+      const FancyInput = React.memo(
+        React.forwardRef<HTMLInputElement, { label: string }>(
+          function FancyInput({ label }, ref) {
+            return React.createElement('input', { ref, 'aria-label': label });
+          }
+        )
+      );
+      const fancyInput = asComponentFn(FancyInput);
+      const ref = React.createRef<HTMLInputElement>();
+
+      render(fancyInput({ label: 'Name', ref, key: 'name' }));
+      expect(ref.current?.getAttribute('aria-label')).toBe('Name');
+      // @ts-expect-error - the ref must target an input
+      fancyInput({ label: 'Name', ref: React.createRef<HTMLDivElement>() });
+    });
+
+    test('supports class components with instance refs', () => {
+      class Greeting extends React.Component<{ name: string }> {
+        greet() {
+          return `Hello ${this.props.name}`;
+        }
+        render() {
+          return span(this.greet());
+        }
+      }
+      const greeting = asComponentFn(Greeting);
+      const ref = React.createRef<Greeting>();
+
+      render(greeting({ name: 'Ada', ref }));
+      expect(ref.current?.greet()).toBe('Hello Ada');
+    });
+
+    test('accepts the props as a type argument', () => {
+      const Title = (props: { text: string }) => h2(props.text);
+      const title = asComponentFn<{ text: string }>(Title);
+      const card = asComponentFnWithChildren<CardProps>(Card);
+
+      const { container } = render(
+        card({ title: 'Hello' }, title({ text: 'Sub' }))
+      );
+      expect(container).toHaveTextContent('HelloSub');
+      // @ts-expect-error - text must be a string
+      title({ text: 1 });
+    });
+
+    test('supports lazy components', async () => {
+      const LazyCard = React.lazy(async () => ({ default: Card }));
+      const lazyCard = asComponentFn(LazyCard);
+      const suspense = asComponentFn(React.Suspense);
+
+      const { findByText } = render(
+        suspense({ fallback: 'Loading' }, lazyCard({ title: 'Lazy' }))
+      );
+      expect(await findByText('Lazy')).toBeInTheDocument();
+      // @ts-expect-error - title is required
+      lazyCard({});
+    });
+  });
+});
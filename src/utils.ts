@@ -1,64 +1,57 @@
 import React from 'react';
-import clsx from 'clsx';
-import type { ElementProps } from './types';
+import { normalizeProps, resolveArguments } from './arguments';
+import { warnOnce } from './dev';
+import type {
+  AnyComponent,
+  BaseElementProps,
+  ComponentFactory,
+  ComponentFnProps,
+  DefinedComponent,
+  ElementFunction,
+  ElementProps,
+  ElementPropsFor,
+  IntrinsicTag,
+} from './types';
+
+/**
+ * Props for an element created by tag name: intrinsic tags get React's
+ * per-tag props, anything else (e.g. custom elements) stays loosely typed.
+ */
+export type MemoizedElementProps<Tag extends string> = Tag extends IntrinsicTag
+  ? ElementPropsFor<Tag>
+  : ElementProps;
 
 // Memoized element creator for better performance
-const elementCache = new Map<
-  string,
-  (
-    propsOrChildren?: ElementProps | React.ReactNode,
-    ...children: React.ReactNode[]
-  ) => React.ReactElement
->();
+const elementCache = new Map<string, ElementFunction<ElementProps>>();
 
-export const createMemoizedElement = (tag: string) => {
+export const createMemoizedElement = <Tag extends string>(
+  tag: Tag
+): ElementFunction<MemoizedElementProps<Tag>> => {
   if (elementCache.has(tag)) {
-    return elementCache.get(tag)!;
+    return elementCache.get(tag)! as ElementFunction<MemoizedElementProps<Tag>>;
   }
 
   const elementFunction = (
     propsOrChildren?: ElementProps | React.ReactNode,
-    ...children: React.ReactNode[]
+    ...rest: React.ReactNode[]
   ) => {
-    // If the first argument is not an object (i.e., it's a child), treat it as children
-    if (
-      propsOrChildren &&
-      typeof propsOrChildren === 'object' &&
-      !React.isValidElement(propsOrChildren) &&
-      !Array.isArray(propsOrChildren)
-    ) {
-      // First argument is props
-      const props = propsOrChildren as ElementProps;
-
-      // Process className with clsx if it exists
-      if (props.className !== undefined) {
-        const processedProps = {
-          ...props,
-          className: clsx(props.className),
-        };
-        return React.createElement(tag, processedProps, ...children);
-      }
+    const [props, children] = resolveArguments<ElementProps>(
+      propsOrChildren,
+      rest
+    );
 
-      return React.createElement(tag, props, ...children);
-    } else {
-      // First argument is a child, no props
-      return React.createElement(tag, undefined, propsOrChildren, ...children);
-    }
+    return React.createElement(tag, normalizeProps(props, tag), ...children);
   };
 
   elementCache.set(tag, elementFunction);
-  return elementFunction;
+  return elementFunction as ElementFunction<MemoizedElementProps<Tag>>;
 };
 
 // Helper function to create multiple elements at once
-export const createElements = (tags: string[]) => {
-  const elements: Record<
-    string,
-    (
-      propsOrChildren?: ElementProps | React.ReactNode,
-      ...children: React.ReactNode[]
-    ) => React.ReactElement
-  > = {};
+export const createElements = <Tag extends string>(tags: readonly Tag[]) => {
+  const elements = {} as {
+    [T in Tag]: ElementFunction<MemoizedElementProps<T>>;
+  };
   tags.forEach((tag) => {
     elements[tag] = createMemoizedElement(tag);
   });
@@ -71,90 +64,320 @@ export const conditional = (
   element: React.ReactNode,
   fallback?: React.ReactNode
 ) => {
-  return condition ? element : fallback || null;
+  return condition ? element : fallback ?? null;
 };
 
-// Utility function for list rendering with better key handling
+// Values that `show` treats as absent
+type Falsy = false | 0 | 0n | '' | null | undefined;
+
+/**
+ * Renders `render` when `when` is truthy, otherwise `fallback`. Both branches
+ * are evaluated lazily, and `render` receives `when` narrowed to its truthy type.
+ *
+ * @param when - The value to test
+ * @param render - Renders the truthy value
+ * @param fallback - Renders when `when` is falsy
+ *
+ * @example
+ * show(user, (u) => span(u.name), () => span('Signed out'));
+ */
+export const show = <T>(
+  when: T,
+  render: (value: Exclude<T, Falsy>) => React.ReactNode,
+  fallback?: () => React.ReactNode
+): React.ReactNode => {
+  if (when) {
+    return render(when as Exclude<T, Falsy>);
+  }
+  return fallback ? fallback() : null;
+};
+
+/**
+ * Renders the case for a string or number value. Every possible value must
+ * have a case, so adding a member to the union is a compile error until it is
+ * handled.
+ *
+ * @param value - The value to switch on
+ * @param cases - A render function per value
+ *
+ * @example
+ * switchCase(status, {
+ *   loading: () => span('Loading...'),
+ *   success: () => span('Done'),
+ *   error: () => span('Failed'),
+ * });
+ */
+export const switchCase = <Value extends string | number>(
+  value: Value,
+  cases: { [K in Value]: (value: K) => React.ReactNode }
+): React.ReactNode => {
+  const render = Object.prototype.hasOwnProperty.call(cases, value)
+    ? cases[value]
+    : undefined;
+  return render ? render(value) : null;
+};
+
+/**
+ * Renders the case for a member of a discriminated union. Each case receives
+ * the member narrowed by its discriminant, and every member must be handled.
+ *
+ * @param value - The union value
+ * @param discriminant - The property that tells the members apart
+ * @param cases - A render function per discriminant value
+ *
+ * @example
+ * match(result, 'status', {
+ *   ok: ({ data }) => span(data),
+ *   error: ({ message }) => span({ role: 'alert' }, message),
+ * });
+ */
+export const match = <
+  T extends Record<Key, string | number>,
+  Key extends keyof T
+>(
+  value: T,
+  discriminant: Key,
+  cases: {
+    [K in T[Key]]: (value: Extract<T, Record<Key, K>>) => React.ReactNode;
+  }
+): React.ReactNode => {
+  const tag = value[discriminant];
+  const render = Object.prototype.hasOwnProperty.call(cases, tag)
+    ? (cases[tag] as (value: T) => React.ReactNode)
+    : undefined;
+  return render ? render(value) : null;
+};
+
+export type EachOptions<T> = {
+  /** Returns a stable key for each item */
+  key: (item: T, index: number) => React.Key;
+  /** Renders an item. Elements rendered with `key` are used without cloning */
+  render: (item: T, index: number, key: React.Key) => React.ReactNode;
+  /** Renders in place of the list when there are no items */
+  empty?: () => React.ReactNode;
+};
+
+/**
+ * Renders a keyed list, or the `empty` state when there are no items.
+ *
+ * @param items - The items to render
+ * @param options - Key, render and empty state functions
+ *
+ * @example
+ * ul(
+ *   each(todos, {
+ *     key: (todo) => todo.id,
+ *     render: (todo) => li(todo.text),
+ *     empty: () => li('Nothing to do'),
+ *   })
+ * );
+ */
+export const each = <T>(
+  items: Iterable<T> | null | undefined,
+  { key, render, empty }: EachOptions<T>
+): React.ReactNode => {
+  const list = items ? Array.from(items) : [];
+  if (list.length === 0) {
+    return empty ? empty() : null;
+  }
+  return mapWithKeys(list, render, key);
+};
+
+// Gives a rendered node a key: elements that already carry it are reused,
+// other elements are cloned, and anything else (strings, numbers, null,
+// arrays) is wrapped in a keyed fragment.
+const withKey = (node: React.ReactNode, key: React.Key) => {
+  if (React.isValidElement(node)) {
+    return node.key === String(key) ? node : React.cloneElement(node, { key });
+  }
+  return React.createElement(React.Fragment, { key }, node);
+};
+
+/**
+ * Renders a list with a key on every item.
+ *
+ * The computed key is passed to `renderFn`, so an element rendered with it
+ * (`li({ key }, ...)`) is used as-is instead of being cloned. In development,
+ * duplicate keys and index keys are reported.
+ *
+ * @param items - The items to render
+ * @param renderFn - Renders an item; may return any React node
+ * @param keyFn - Returns a stable key for each item. Without it, keys set by
+ * `renderFn` are kept and the index is used for the rest
+ * @returns The keyed nodes
+ */
 export const mapWithKeys = <T>(
-  items: T[],
-  renderFn: (item: T, index: number) => React.ReactNode,
-  keyFn?: (item: T, index: number) => string | number
-) => {
-  return items.map((item, index) => {
-    const key = keyFn ? keyFn(item, index) : index;
-    return React.cloneElement(renderFn(item, index) as React.ReactElement, {
-      key,
-    });
+  items: Iterable<T>,
+  renderFn: (item: T, index: number, key: React.Key) => React.ReactNode,
+  keyFn?: (item: T, index: number) => React.Key
+): React.ReactNode[] => {
+  const list = Array.from(items);
+  const seen =
+    process.env.NODE_ENV !== 'production'
+      ? new Map<string, number[]>()
+      : undefined;
+  let usedIndexKeys = false;
+
+  const nodes = list.map((item, index) => {
+    let node: React.ReactNode;
+    let key: React.Key;
+    if (keyFn) {
+      key = keyFn(item, index);
+      node = withKey(renderFn(item, index, key), key);
+    } else {
+      node = renderFn(item, index, index);
+      if (React.isValidElement(node) && node.key !== null) {
+        key = node.key;
+      } else {
+        key = index;
+        usedIndexKeys = true;
+        node = withKey(node, key);
+      }
+    }
+
+    if (seen) {
+      const indices = seen.get(String(key)) ?? [];
+      indices.push(index);
+      seen.set(String(key), indices);
+    }
+    return node;
   });
+
+  if (process.env.NODE_ENV !== 'production' && seen) {
+    if (usedIndexKeys) {
+      warnOnce(
+        'mapWithKeys() fell back to index keys, which are unstable when items are added, removed or reordered. Pass a keyFn that returns a stable id.'
+      );
+    }
+    seen.forEach((indices, key) => {
+      if (indices.length > 1) {
+        const collided = indices.map((index) => list[index]);
+        const at = indices.join(', ');
+        warnOnce(
+          `mapWithKeys() produced the key "${key}" for more than one item (indexes ${at}). Keys must be unique among siblings.`,
+          collided
+        );
+      }
+    });
+  }
+
+  return nodes;
+};
+
+type AsComponentFn = {
+  <C extends AnyComponent>(Component: C): ComponentFactory<ComponentFnProps<C>>;
+  // Props given explicitly, as in `asComponentFn<Props>(Component)`
+  <Props extends object>(
+    Component: React.ComponentType<Props>
+  ): ComponentFactory<ComponentFnProps<React.FC<Props>>>;
 };
 
 /**
  * Creates a function-based wrapper for React components
+ *
+ * Props are inferred from the component, which can be a function or class
+ * component, or a `memo`, `forwardRef` or `lazy` exotic component. `key` and
+ * `ref` are accepted, and `className` (clsx syntax) and `style` (style
+ * arrays) are resolved like in the DOM element functions.
+ *
  * @param Component - The React component to wrap
  * @returns A function that can be called like other DOM element functions
  */
-export const asComponentFn = <Props extends Record<string, unknown>>(
-  Component: React.ComponentType<Props>
-) => {
-  return (
-    propsOrChildren?: Props | React.ReactNode,
-    ...children: React.ReactNode[]
+export const asComponentFn: AsComponentFn = <C extends AnyComponent>(
+  Component: C
+): ComponentFactory<ComponentFnProps<C>> => {
+  // Props are type-checked by the factory signature, not at createElement.
+  // `defineComponent` factories are not component types themselves; React
+  // renders their inner component.
+  const type = ((Component as { Component?: unknown }).Component ??
+    Component) as unknown as React.ComponentType<BaseElementProps>;
+
+  const factory = (
+    propsOrChildren?: ComponentFnProps<C> | React.ReactNode,
+    ...rest: React.ReactNode[]
   ) => {
-    // If the first argument is not an object (i.e., it's a child), treat it as children
-    if (
-      propsOrChildren &&
-      typeof propsOrChildren === 'object' &&
-      !React.isValidElement(propsOrChildren) &&
-      !Array.isArray(propsOrChildren)
-    ) {
-      // First argument is props
-      const props = propsOrChildren as Props;
-      return React.createElement(Component, props, ...children);
-    } else {
-      // First argument is a child, no props
-      return React.createElement(
-        Component,
-        {} as Props,
-        propsOrChildren,
-        ...children
-      );
-    }
+    const [props, children] = resolveArguments<BaseElementProps>(
+      propsOrChildren,
+      rest
+    );
+
+    return React.createElement(
+      type,
+      normalizeProps(props, Component),
+      ...children
+    );
   };
+
+  return factory as ComponentFactory<ComponentFnProps<C>>;
 };
 
 /**
  * Creates a function-based wrapper for React components with children support
- * @param Component - The React component to wrap
+ *
+ * @deprecated `asComponentFn` handles children and infers props; use it instead.
+ */
+export const asComponentFnWithChildren = asComponentFn;
+
+// Normalizes `props.children` to the array `defineComponent` renders receive
+const toChildArray = <Child>(children: Child | Child[] | undefined) => {
+  if (children === undefined) {
+    return [];
+  }
+  return Array.isArray(children) ? children : [children];
+};
+
+/**
+ * Defines a component that can be called like the DOM element functions.
+ * React renders it through its `.Component`, which takes the children on
+ * `props.children`; the function itself is not a component type.
+ *
+ * Children always arrive as the second argument of `render`, as an array,
+ * whichever way the component is used.
+ *
+ * @param render - Renders the component from its props and children
+ * @param displayName - Name shown in React DevTools. Defaults to the name of `render`
  * @returns A function that can be called like other DOM element functions
+ *
+ * @example
+ * const section = defineComponent(function Section(
+ *   { title }: { title: string },
+ *   children
+ * ) {
+ *   return div({ className: 'section' }, h2(title), ...children);
+ * });
+ *
+ * section({ title: 'Intro' }, p('First'), p('Second'));
+ * React.createElement(section.Component, { title: 'Intro' }, p('First'));
  */
-export const asComponentFnWithChildren = <
-  Props extends Record<string, unknown>
+export const defineComponent = <
+  Props extends object = Record<never, never>,
+  Child extends React.ReactNode = React.ReactNode
 >(
-  Component: React.ComponentType<Props & { children?: React.ReactNode }>
-) => {
-  return (
-    propsOrChildren?:
-      | (Props & { children?: React.ReactNode })
-      | React.ReactNode,
-    ...children: React.ReactNode[]
+  render: (props: Props, children: Child[]) => React.ReactNode,
+  displayName: string = render.name
+): DefinedComponent<Props, Child> => {
+  const Component = ({
+    children,
+    ...props
+  }: Props & { children?: Child | Child[] }) =>
+    render(props as Props, toChildArray(children));
+  if (displayName) {
+    Component.displayName = displayName;
+  }
+
+  const factory = (
+    propsOrChildren?: (Props & React.Attributes) | Child | null,
+    ...rest: Child[]
   ) => {
-    // If the first argument is not an object (i.e., it's a child), treat it as children
-    if (
-      propsOrChildren &&
-      typeof propsOrChildren === 'object' &&
-      !React.isValidElement(propsOrChildren) &&
-      !Array.isArray(propsOrChildren)
-    ) {
-      // First argument is props
-      const props = propsOrChildren as Props & { children?: React.ReactNode };
-      return React.createElement(Component, props, ...children);
-    } else {
-      // First argument is a child, no props
-      return React.createElement(
-        Component,
-        { children: propsOrChildren } as Props & { children?: React.ReactNode },
-        ...children
-      );
-    }
+    const [props, children] = resolveArguments<Props & React.Attributes>(
+      propsOrChildren,
+      rest
+    );
+    return React.createElement(Component, props, ...children);
   };
+
+  return Object.assign(factory, {
+    displayName: displayName || undefined,
+    Component,
+  }) as unknown as DefinedComponent<Props, Child>;
 };
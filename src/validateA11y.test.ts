@@ -0,0 +1,163 @@
+import React from 'react';
+import { configureDevChecks } from './dev';
+import {
+  a,
+  button,
+  div,
+  iframe,
+  img,
+  input,
+  label,
+  li,
+  span,
+  svg,
+  ul,
+} from './htmlElements';
+import type { InputProps } from './types';
+
+describe('Accessibility validation', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  describe('when enabled', () => {
+    beforeAll(() => {
+      configureDevChecks({ a11y: true });
+    });
+
+    afterAll(() => {
+      configureDevChecks({ a11y: false });
+    });
+
+    test('warns about images without alt', () => {
+      img({ src: '/logo.png' });
+      img({ src: '/divider.png', alt: '' });
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '<img src="/logo.png"> is missing an alt attribute.'
+        )
+      );
+    });
+
+    test('reports each offending element', () => {
+      img({ src: '/first.png' });
+      img({ src: '/second.png' });
+      img({ src: '/second.png' });
+      button({ id: 'close' }, svg());
+      button({ id: 'menu' }, svg());
+
+      expect(warn).toHaveBeenCalledTimes(4);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('<img src="/second.png"> is missing')
+      );
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('<button id="menu"> has no accessible name.')
+      );
+    });
+
+    test('warns about iframes without title', () => {
+      iframe({ src: '/embed' });
+
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: <iframe src="/embed"> is missing a title describing its content.'
+      );
+    });
+
+    test('warns about buttons and links without an accessible name', () => {
+      button({ onClick: () => {} }, span({ 'aria-hidden': true }, '×'));
+      a({ href: '/' }, img({ alt: '' }));
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '<button> with the text "×" has no accessible name.'
+        )
+      );
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('<a href="/"> has no accessible name.')
+      );
+    });
+
+    test('accepts names from text, labels, images and components', () => {
+      const Icon = () => svg();
+      button(span('Save'));
+      button({ 'aria-label': 'Close' }, svg());
+      a({ href: '/' }, img({ alt: 'Home' }));
+      button(React.createElement(Icon));
+      label({ htmlFor: 'email' }, 'Email');
+      label('Subscribe', input({ type: 'checkbox' }));
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    test('warns about labels without a control', () => {
+      label('Name', span('required'));
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '<label> with the text "Name required" is not associated with a control.'
+        )
+      );
+    });
+
+    test('warns about positive tabIndex', () => {
+      div({ tabIndex: 0 }, 'Focusable');
+      div({ tabIndex: 3 }, 'Jumps the queue');
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '<div> with the text "Jumps the queue" has tabIndex 3.'
+        )
+      );
+    });
+
+    test('warns about unknown roles with a suggestion', () => {
+      div({ role: 'buton' }, 'Go');
+
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: Unknown ARIA role "buton" on <div> with the text "Go". Did you mean "button"?'
+      );
+    });
+
+    test('warns about misspelled aria attributes', () => {
+      input({
+        'aria-labeledby': 'name-label',
+      } as unknown as InputProps);
+
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: Unknown ARIA attribute "aria-labeledby" on <input>. Did you mean "aria-labelledby"?'
+      );
+    });
+
+    test('warns about aria attributes the role does not support', () => {
+      div({ 'aria-checked': true }, 'Option');
+      span({ role: 'button', 'aria-selected': true }, 'Tab');
+      ul(li({ 'aria-level': 2 }, 'Nested'));
+      div({ role: 'checkbox', 'aria-checked': true, tabIndex: 0 }, 'Agree');
+      input({ type: 'checkbox', 'aria-required': true });
+
+      expect(warn).toHaveBeenCalledTimes(2);
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: "aria-checked" is not supported with the role "generic" on <div> with the text "Option".'
+      );
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: "aria-selected" is not supported with the role "button" on <span> with the text "Tab".'
+      );
+    });
+  });
+
+  test('is off by default', () => {
+    img({ src: '/off.png' });
+    div({ role: 'nope', tabIndex: 5 });
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,561 @@
+import React from 'react';
+import { warnOnce } from './dev';
+
+// Development-only accessibility audit
+//
+// Like the nesting check, each element is audited when it is created, using
+// only its own props and the children it was created with. Content rendered
+// by components is unknown at that point, so checks that depend on content
+// give such elements the benefit of the doubt.
+
+type HostElement = React.ReactElement<Record<string, unknown>> & {
+  type: string;
+};
+
+// WAI-ARIA 1.2 roles, excluding abstract roles
+const ROLES = [
+  'alert',
+  'alertdialog',
+  'application',
+  'article',
+  'banner',
+  'blockquote',
+  'button',
+  'caption',
+  'cell',
+  'checkbox',
+  'code',
+  'columnheader',
+  'combobox',
+  'complementary',
+  'contentinfo',
+  'definition',
+  'deletion',
+  'dialog',
+  'directory',
+  'document',
+  'emphasis',
+  'feed',
+  'figure',
+  'form',
+  'generic',
+  'grid',
+  'gridcell',
+  'group',
+  'heading',
+  'img',
+  'insertion',
+  'link',
+  'list',
+  'listbox',
+  'listitem',
+  'log',
+  'main',
+  'marquee',
+  'math',
+  'menu',
+  'menubar',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'meter',
+  'navigation',
+  'none',
+  'note',
+  'option',
+  'paragraph',
+  'presentation',
+  'progressbar',
+  'radio',
+  'radiogroup',
+  'region',
+  'row',
+  'rowgroup',
+  'rowheader',
+  'scrollbar',
+  'search',
+  'searchbox',
+  'separator',
+  'slider',
+  'spinbutton',
+  'status',
+  'strong',
+  'subscript',
+  'superscript',
+  'switch',
+  'tab',
+  'table',
+  'tablist',
+  'tabpanel',
+  'term',
+  'textbox',
+  'time',
+  'timer',
+  'toolbar',
+  'tooltip',
+  'tree',
+  'treegrid',
+  'treeitem',
+];
+
+// Attributes every role supports
+const GLOBAL_ARIA = [
+  'aria-atomic',
+  'aria-braillelabel',
+  'aria-brailleroledescription',
+  'aria-busy',
+  'aria-controls',
+  'aria-current',
+  'aria-describedby',
+  'aria-description',
+  'aria-details',
+  'aria-disabled',
+  'aria-dropeffect',
+  'aria-errormessage',
+  'aria-flowto',
+  'aria-grabbed',
+  'aria-haspopup',
+  'aria-hidden',
+  'aria-invalid',
+  'aria-keyshortcuts',
+  'aria-label',
+  'aria-labelledby',
+  'aria-live',
+  'aria-owns',
+  'aria-relevant',
+  'aria-roledescription',
+];
+
+const SET_ITEMS = [
+  'article',
+  'listitem',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'row',
+  'tab',
+  'treeitem',
+];
+const TABLE_CELLS = ['cell', 'columnheader', 'gridcell', 'rowheader'];
+// Written out rather than spread from TABLE_CELLS: bundlers keep spreads,
+// and with them the tables, in production builds
+const TABLE_ITEMS = ['cell', 'columnheader', 'gridcell', 'row', 'rowheader'];
+const RANGES = [
+  'meter',
+  'progressbar',
+  'scrollbar',
+  'separator',
+  'slider',
+  'spinbutton',
+];
+
+// Attributes only some roles support, with the roles that do
+const ROLE_ARIA: Record<string, string[]> = {
+  'aria-activedescendant': [
+    'application',
+    'combobox',
+    'grid',
+    'group',
+    'listbox',
+    'menu',
+    'menubar',
+    'radiogroup',
+    'row',
+    'searchbox',
+    'spinbutton',
+    'tablist',
+    'textbox',
+    'toolbar',
+    'tree',
+    'treegrid',
+  ],
+  'aria-autocomplete': ['combobox', 'searchbox', 'textbox'],
+  'aria-checked': [
+    'checkbox',
+    'menuitemcheckbox',
+    'menuitemradio',
+    'option',
+    'radio',
+    'switch',
+    'treeitem',
+  ],
+  'aria-colcount': ['grid', 'table', 'treegrid'],
+  'aria-colindex': TABLE_ITEMS,
+  'aria-colindextext': TABLE_ITEMS,
+  'aria-colspan': TABLE_CELLS,
+  'aria-expanded': [
+    'application',
+    'button',
+    'checkbox',
+    'columnheader',
+    'combobox',
+    'gridcell',
+    'link',
+    'listbox',
+    'menuitem',
+    'menuitemcheckbox',
+    'menuitemradio',
+    'row',
+    'rowheader',
+    'switch',
+    'tab',
+    'treeitem',
+  ],
+  'aria-level': ['heading', 'listitem', 'row', 'treeitem'],
+  'aria-modal': ['alertdialog', 'dialog'],
+  'aria-multiline': ['searchbox', 'textbox'],
+  'aria-multiselectable': ['grid', 'listbox', 'tablist', 'tree', 'treegrid'],
+  'aria-orientation': [
+    'listbox',
+    'menu',
+    'menubar',
+    'radiogroup',
+    'scrollbar',
+    'separator',
+    'slider',
+    'tablist',
+    'toolbar',
+    'tree',
+    'treegrid',
+  ],
+  'aria-placeholder': ['searchbox', 'textbox'],
+  'aria-posinset': SET_ITEMS,
+  'aria-pressed': ['button'],
+  'aria-readonly': [
+    'checkbox',
+    'columnheader',
+    'combobox',
+    'grid',
+    'gridcell',
+    'listbox',
+    'menuitemcheckbox',
+    'menuitemradio',
+    'radiogroup',
+    'rowheader',
+    'searchbox',
+    'slider',
+    'spinbutton',
+    'switch',
+    'textbox',
+    'treegrid',
+  ],
+  'aria-required': [
+    'checkbox',
+    'columnheader',
+    'combobox',
+    'gridcell',
+    'listbox',
+    'radiogroup',
+    'rowheader',
+    'searchbox',
+    'spinbutton',
+    'textbox',
+    'tree',
+    'treegrid',
+  ],
+  'aria-rowcount': ['grid', 'table', 'treegrid'],
+  'aria-rowindex': TABLE_ITEMS,
+  'aria-rowindextext': TABLE_ITEMS,
+  'aria-rowspan': TABLE_CELLS,
+  'aria-selected': [
+    'columnheader',
+    'gridcell',
+    'option',
+    'row',
+    'rowheader',
+    'tab',
+    'treeitem',
+  ],
+  'aria-setsize': SET_ITEMS,
+  'aria-sort': ['columnheader', 'rowheader'],
+  'aria-valuemax': RANGES,
+  'aria-valuemin': RANGES,
+  'aria-valuenow': RANGES,
+  'aria-valuetext': RANGES,
+};
+
+// Implicit roles of common elements, used when no role is given. Elements
+// missing here are not checked for role-specific attributes.
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: 'article',
+  b: 'generic',
+  blockquote: 'blockquote',
+  button: 'button',
+  dialog: 'dialog',
+  div: 'generic',
+  fieldset: 'group',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  hr: 'separator',
+  i: 'generic',
+  li: 'listitem',
+  main: 'main',
+  meter: 'meter',
+  nav: 'navigation',
+  ol: 'list',
+  option: 'option',
+  output: 'status',
+  p: 'paragraph',
+  progress: 'progressbar',
+  span: 'generic',
+  table: 'table',
+  td: 'cell',
+  textarea: 'textbox',
+  th: 'columnheader',
+  tr: 'row',
+  ul: 'list',
+};
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  email: 'textbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  search: 'searchbox',
+  submit: 'button',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox',
+};
+
+// Elements a label can label by nesting them
+const LABELABLE = [
+  'button',
+  'input',
+  'meter',
+  'output',
+  'progress',
+  'select',
+  'textarea',
+];
+
+const hasValue = (value: unknown) =>
+  value !== undefined &&
+  value !== null &&
+  value !== false &&
+  String(value).trim() !== '';
+
+// Levenshtein distance, for suggesting the intended name of a typo
+const distance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const suggest = (name: string, candidates: string[]) => {
+  const closest = candidates.reduce((best, candidate) =>
+    distance(name, candidate) < distance(name, best) ? candidate : best
+  );
+  return distance(name, closest) <= 2 ? ` Did you mean "${closest}"?` : '';
+};
+
+const roleOf = (tag: string, props: Record<string, unknown>) => {
+  if (typeof props.role === 'string') {
+    // Later tokens are fallbacks for user agents that lack the first
+    return props.role.split(/\s+/).find((token) => ROLES.includes(token));
+  }
+  if (tag === 'input') {
+    return props.list === undefined
+      ? INPUT_ROLES[String(props.type ?? 'text')]
+      : 'combobox';
+  }
+  if (tag === 'a') {
+    return props.href === undefined ? 'generic' : 'link';
+  }
+  return IMPLICIT_ROLES[tag];
+};
+
+type Content = {
+  // Whether the content gives the element an accessible name
+  named: boolean;
+  // Whether the content contains a control a label can label
+  labelable: boolean;
+  // Whether some of the content is rendered by components
+  opaque: boolean;
+};
+
+const inspect = (node: React.ReactNode, content: Content) => {
+  if (typeof node === 'string' || typeof node === 'number') {
+    content.named ||= String(node).trim() !== '';
+  } else if (Array.isArray(node)) {
+    node.forEach((child) => inspect(child, content));
+  } else if (React.isValidElement<Record<string, unknown>>(node)) {
+    const { props } = node;
+    if (node.type === React.Fragment) {
+      inspect(props.children as React.ReactNode, content);
+    } else if (typeof node.type !== 'string') {
+      content.opaque = true;
+    } else if (
+      props['aria-hidden'] !== true &&
+      props['aria-hidden'] !== 'true'
+    ) {
+      content.named ||=
+        hasValue(props['aria-label']) ||
+        hasValue(props['aria-labelledby']) ||
+        (node.type === 'img' && hasValue(props.alt));
+      content.labelable ||=
+        LABELABLE.includes(node.type) && props.type !== 'hidden';
+      content.opaque ||= props.dangerouslySetInnerHTML !== undefined;
+      inspect(props.children as React.ReactNode, content);
+    }
+  }
+};
+
+const inspectChildren = (props: Record<string, unknown>) => {
+  const content = {
+    named: false,
+    labelable: false,
+    opaque: props.dangerouslySetInnerHTML !== undefined,
+  };
+  inspect(props.children as React.ReactNode, content);
+  return content;
+};
+
+// Attributes that usually tell elements apart, with their HTML names
+const IDENTIFYING_PROPS: [prop: string, attribute: string][] = [
+  ['id', 'id'],
+  ['name', 'name'],
+  ['src', 'src'],
+  ['href', 'href'],
+  ['htmlFor', 'for'],
+  ['className', 'class'],
+];
+
+const textOf = (node: React.ReactNode): string => {
+  if (typeof node === 'string' || typeof node === 'number') {
+    return String(node);
+  }
+  if (Array.isArray(node)) {
+    return node.map(textOf).join(' ');
+  }
+  if (React.isValidElement<Record<string, unknown>>(node)) {
+    return textOf(node.props.children as React.ReactNode);
+  }
+  return '';
+};
+
+// Names the element in warnings, which are logged once per message, so
+// that each offending element is reported and can be found
+const describeElement = (tag: string, props: Record<string, unknown>) => {
+  const identifying = IDENTIFYING_PROPS.find(
+    ([prop]) => typeof props[prop] === 'string' && props[prop] !== ''
+  );
+  if (identifying) {
+    return `<${tag} ${identifying[1]}="${props[identifying[0]]}">`;
+  }
+  const text = textOf(props.children as React.ReactNode)
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) {
+    return `<${tag}>`;
+  }
+  return `<${tag}> with the text "${
+    text.length > 30 ? `${text.slice(0, 30)}…` : text
+  }"`;
+};
+
+/**
+ * Warns about common accessibility problems: images without alt text,
+ * buttons and links without an accessible name, unknown roles, misspelled
+ * or unsupported `aria-*` attributes, positive `tabIndex` values, labels
+ * without a control and iframes without a title.
+ */
+export const validateA11y = (element: HostElement) => {
+  const tag = element.type;
+  const { props } = element;
+  const described = describeElement(tag, props);
+
+  if (tag === 'img' && props.alt === undefined) {
+    warnOnce(
+      `${described} is missing an alt attribute. Describe the image, or use alt="" if it is decorative.`
+    );
+  }
+
+  if (tag === 'iframe' && !hasValue(props.title)) {
+    warnOnce(`${described} is missing a title describing its content.`);
+  }
+
+  if (
+    (tag === 'button' || tag === 'a') &&
+    !hasValue(props['aria-label']) &&
+    !hasValue(props['aria-labelledby']) &&
+    !hasValue(props.title)
+  ) {
+    const content = inspectChildren(props);
+    if (!content.named && !content.opaque) {
+      warnOnce(
+        `${described} has no accessible name. Add text content, an aria-label or aria-labelledby.`
+      );
+    }
+  }
+
+  if (tag === 'label' && props.htmlFor === undefined) {
+    const content = inspectChildren(props);
+    if (!content.labelable && !content.opaque) {
+      warnOnce(
+        `${described} is not associated with a control. Add htmlFor, or nest the control inside the label.`
+      );
+    }
+  }
+
+  if (Number(props.tabIndex) > 0) {
+    warnOnce(
+      `${described} has tabIndex ${props.tabIndex}. Positive values break the natural tab order; use 0 or -1 instead.`
+    );
+  }
+
+  if (typeof props.role === 'string') {
+    props.role
+      .split(/\s+/)
+      .filter((token) => token && !ROLES.includes(token))
+      .forEach((token) => {
+        warnOnce(
+          `Unknown ARIA role "${token}" on ${described}.${suggest(
+            token,
+            ROLES
+          )}`
+        );
+      });
+  }
+
+  const role = roleOf(tag, props);
+  Object.keys(props)
+    .filter((name) => name.startsWith('aria-'))
+    .forEach((name) => {
+      if (!GLOBAL_ARIA.includes(name) && !ROLE_ARIA[name]) {
+        // Built on demand, since building it at load would keep the tables
+        // in production builds
+        const known = [...GLOBAL_ARIA, ...Object.keys(ROLE_ARIA)];
+        warnOnce(
+          `Unknown ARIA attribute "${name}" on ${described}.${suggest(
+            name,
+            known
+          )}`
+        );
+      } else if (role && ROLE_ARIA[name] && !ROLE_ARIA[name].includes(role)) {
+        warnOnce(
+          `"${name}" is not supported with the role "${role}" on ${described}.`
+        );
+      }
+    });
+};
@@ -0,0 +1,127 @@
+import React from 'react';
+import { configureDevChecks } from './dev';
+import {
+  a,
+  br,
+  button,
+  div,
+  dl,
+  dt,
+  fragment,
+  img,
+  li,
+  p,
+  span,
+  table,
+  tbody,
+  td,
+  tr,
+  ul,
+} from './htmlElements';
+
+describe('Nesting validation', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  describe('when enabled', () => {
+    beforeAll(() => {
+      configureDevChecks({ nesting: true });
+    });
+
+    afterAll(() => {
+      configureDevChecks({ nesting: false });
+    });
+
+    test('warns about block elements inside p with the path', () => {
+      p(span('Intro'), span(div('Block')));
+
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: <div> cannot appear as a descendant of <p>. Path: p > span > div'
+      );
+    });
+
+    test('warns about nested interactive elements', () => {
+      button(span(button('Inner')));
+      a({ href: '/outer' }, a({ href: '/inner' }, 'Inner'));
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '<button> cannot appear as a descendant of <button>. Path: button > span > button'
+        )
+      );
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '<a> cannot appear as a descendant of <a>. Path: a > a'
+        )
+      );
+    });
+
+    test('warns about rows directly under table', () => {
+      table(tr(td('Cell')));
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '<tr> cannot appear as a child of <table>. Add a <tbody>, <thead> or <tfoot>.'
+        )
+      );
+    });
+
+    test('warns about list items outside a list, looking through fragments', () => {
+      div(fragment(li('Stray')));
+
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: <li> cannot appear as a child of <div>. It must be a child of <ul>, <ol> or <menu>. Path: div > li'
+      );
+    });
+
+    test('warns about children of void elements', () => {
+      br('Text');
+      img({ alt: '' }, span('Caption'));
+
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: <br> is a void element and cannot have children.'
+      );
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: <img> is a void element and cannot have children.'
+      );
+    });
+
+    test('warns about text in table rows', () => {
+      tr('Loose text');
+
+      expect(warn).toHaveBeenCalledWith(
+        'react-dom-functions: Text "Loose text" cannot appear as a child of <tr>.'
+      );
+    });
+
+    test('accepts valid markup', () => {
+      table(tbody(tr(td(a({ href: '/' }, 'Home')))));
+      ul(li(p('Item')), ' ');
+      dl(div(dt('Term')));
+      p(span('Inline'), button('Action'));
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    test('treats component elements as opaque', () => {
+      const Block = () => div('Block');
+      p(React.createElement(Block));
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+
+  test('is off by default', () => {
+    p(div('Off by default'));
+    table(tr(td('Off by default')));
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
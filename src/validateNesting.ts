@@ -0,0 +1,247 @@
+import React from 'react';
+import { warnOnce } from './dev';
+import { VOID_ELEMENTS } from './voidElements';
+
+// Development-only HTML content-model validation
+//
+// Elements are created bottom-up, so each element is checked against the
+// children it was created with. Descendants are found through a cached
+// summary of each element's subtree. Component elements are opaque: what they
+// render is unknown until React renders them.
+
+type HostElement = React.ReactElement<{
+  children?: React.ReactNode;
+  dangerouslySetInnerHTML?: unknown;
+}> & { type: string };
+
+// Elements a `p` cannot contain: their start tag closes the paragraph
+const P_CLOSERS = [
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'details',
+  'dialog',
+  'div',
+  'dl',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hgroup',
+  'hr',
+  'main',
+  'menu',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'search',
+  'section',
+  'table',
+  'ul',
+];
+
+const INTERACTIVE = [
+  'a',
+  'button',
+  'details',
+  'embed',
+  'iframe',
+  'input',
+  'label',
+  'select',
+  'textarea',
+];
+
+const FORBIDDEN_DESCENDANTS: Record<string, string[]> = {
+  p: P_CLOSERS,
+  a: INTERACTIVE,
+  button: INTERACTIVE,
+  form: ['form'],
+  label: ['label'],
+  header: ['header', 'footer'],
+  footer: ['header', 'footer'],
+};
+
+// Parents whose children are restricted to a fixed set of elements (and
+// no text)
+const ALLOWED_CHILDREN: Record<string, string[]> = {
+  table: [
+    'caption',
+    'colgroup',
+    'thead',
+    'tbody',
+    'tfoot',
+    'script',
+    'template',
+    'style',
+  ],
+  thead: ['tr', 'script', 'template'],
+  tbody: ['tr', 'script', 'template'],
+  tfoot: ['tr', 'script', 'template'],
+  tr: ['td', 'th', 'script', 'template'],
+  colgroup: ['col', 'template'],
+  ul: ['li', 'script', 'template'],
+  ol: ['li', 'script', 'template'],
+  menu: ['li', 'script', 'template'],
+  dl: ['dt', 'dd', 'div', 'script', 'template'],
+  select: ['option', 'optgroup', 'hr'],
+  optgroup: ['option'],
+};
+
+// Elements that are only valid directly inside certain parents
+const REQUIRED_PARENTS: Record<string, string[]> = {
+  li: ['ul', 'ol', 'menu'],
+  dt: ['dl', 'div'],
+  dd: ['dl', 'div'],
+  tr: ['thead', 'tbody', 'tfoot'],
+  td: ['tr'],
+  th: ['tr'],
+  thead: ['table'],
+  tbody: ['table'],
+  tfoot: ['table'],
+  caption: ['table'],
+  colgroup: ['table'],
+  col: ['colgroup'],
+  option: ['select', 'datalist', 'optgroup'],
+  optgroup: ['select'],
+  figcaption: ['figure'],
+  legend: ['fieldset'],
+  summary: ['details'],
+  rt: ['ruby', 'rtc'],
+  rp: ['ruby'],
+};
+
+// Foreign content follows its own rules, and template content is inert
+const OPAQUE = ['svg', 'math', 'template'];
+
+const listTags = (tags: string[]) => {
+  const names = tags.map((tag) => `<${tag}>`);
+  return names.length === 1
+    ? names[0]
+    : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+};
+
+// Calls `visit` for each element or text a parent renders directly, looking
+// through arrays and fragments and skipping component elements
+const forEachChild = (
+  node: React.ReactNode,
+  visit: (child: HostElement | string) => void
+) => {
+  if (typeof node === 'string' || typeof node === 'number') {
+    visit(String(node));
+  } else if (Array.isArray(node)) {
+    node.forEach((child) => forEachChild(child, visit));
+  } else if (React.isValidElement<{ children?: React.ReactNode }>(node)) {
+    if (node.type === React.Fragment) {
+      forEachChild(node.props.children, visit);
+    } else if (typeof node.type === 'string') {
+      visit(node as HostElement);
+    }
+  }
+};
+
+// Maps each tag found below an element to the path of tags leading to its
+// first occurrence. Elements are immutable, so summaries are cached.
+const summaries = new WeakMap<HostElement, Map<string, string[]>>();
+
+const summarize = (element: HostElement) => {
+  let summary = summaries.get(element);
+  if (summary) {
+    return summary;
+  }
+
+  const descendants = new Map<string, string[]>();
+  if (!OPAQUE.includes(element.type)) {
+    forEachChild(element.props.children, (child) => {
+      if (typeof child === 'string') {
+        return;
+      }
+      if (!descendants.has(child.type)) {
+        descendants.set(child.type, [child.type]);
+      }
+      summarize(child).forEach((path, tag) => {
+        if (!descendants.has(tag)) {
+          descendants.set(tag, [child.type, ...path]);
+        }
+      });
+    });
+  }
+
+  summary = descendants;
+  summaries.set(element, summary);
+  return summary;
+};
+
+/**
+ * Warns when an element breaks the HTML content model: children of void
+ * elements, children a parent does not allow, elements outside their
+ * required parent, and forbidden descendants such as a `div` inside a `p`.
+ */
+export const validateNesting = (element: HostElement) => {
+  const tag = element.type;
+  const { children, dangerouslySetInnerHTML } = element.props;
+
+  if (VOID_ELEMENTS.includes(tag)) {
+    let hasChildren = dangerouslySetInnerHTML !== undefined;
+    forEachChild(children, () => {
+      hasChildren = true;
+    });
+    if (hasChildren) {
+      warnOnce(`<${tag}> is a void element and cannot have children.`);
+    }
+    return;
+  }
+
+  if (OPAQUE.includes(tag)) {
+    return;
+  }
+
+  const allowed = ALLOWED_CHILDREN[tag];
+  forEachChild(children, (child) => {
+    if (typeof child === 'string') {
+      if (allowed && child.trim()) {
+        warnOnce(`Text "${child}" cannot appear as a child of <${tag}>.`);
+      }
+      return;
+    }
+
+    const parents = REQUIRED_PARENTS[child.type];
+    if (
+      allowed
+        ? !allowed.includes(child.type)
+        : parents && !parents.includes(tag)
+    ) {
+      const hint =
+        tag === 'table' && child.type === 'tr'
+          ? ' Add a <tbody>, <thead> or <tfoot>.'
+          : parents
+          ? ` It must be a child of ${listTags(parents)}.`
+          : '';
+      warnOnce(
+        `<${child.type}> cannot appear as a child of <${tag}>.${hint} Path: ${tag} > ${child.type}`
+      );
+    }
+  });
+
+  const forbidden = FORBIDDEN_DESCENDANTS[tag];
+  if (forbidden) {
+    summarize(element).forEach((descendantPath, descendant) => {
+      if (forbidden.includes(descendant)) {
+        const path = [tag, ...descendantPath].join(' > ');
+        warnOnce(
+          `<${descendant}> cannot appear as a descendant of <${tag}>. Path: ${path}`
+        );
+      }
+    });
+  }
+};
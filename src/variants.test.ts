@@ -0,0 +1,68 @@
+import type React from 'react';
+import { render } from '@testing-library/react';
+import { a, button, input } from './htmlElements';
+import { variants } from './variants';
+
+const action = variants(button, {
+  base: ['btn', { 'btn-base': true }],
+  variants: {
+    intent: { primary: 'btn-primary', danger: 'btn-danger' },
+    size: { sm: 'btn-sm', lg: ['btn-lg', 'text-lg'] },
+    block: { true: 'w-full', false: 'w-auto' },
+  },
+  compoundVariants: [
+    { intent: 'danger', size: 'lg', className: 'shadow' },
+    { intent: ['primary', 'danger'], block: true, className: 'rounded' },
+  ],
+  defaultVariants: { intent: 'primary', size: 'sm', block: false },
+});
+
+const classOf = (element: React.ReactElement) =>
+  (render(element).container.firstChild as HTMLElement).className;
+
+describe('variants', () => {
+  test('applies base, default and selected variant classes', () => {
+    expect(classOf(action('Save'))).toBe(
+      'btn btn-base btn-primary btn-sm w-auto'
+    );
+    expect(classOf(action({ size: 'lg', block: true }, 'Save'))).toBe(
+      'btn btn-base btn-primary btn-lg text-lg w-full rounded'
+    );
+  });
+
+  test('applies compound variants and the className prop last', () => {
+    expect(
+      classOf(
+        action(
+          { intent: 'danger', size: 'lg', className: ['extra', { on: true }] },
+          'Delete'
+        )
+      )
+    ).toBe('btn btn-base btn-danger btn-lg text-lg w-auto shadow extra on');
+  });
+
+  test('strips variant props before they reach the element', () => {
+    const field = variants(input, {
+      variants: { size: { sm: 'input-sm', md: 'input-md' } },
+    });
+    const element = field({ size: 'sm', type: 'email', disabled: true });
+
+    expect(element.props).toEqual({
+      type: 'email',
+      disabled: true,
+      className: 'input-sm',
+    });
+  });
+
+  test('keeps the element call signature and types variant props', () => {
+    const link = variants(a, { base: 'link' });
+
+    expect(classOf(link({ href: '/home' }, 'Home'))).toBe('link');
+    expect(classOf(link('Plain'))).toBe('link');
+
+    // @ts-expect-error: 'xl' is not a size
+    action({ size: 'xl' });
+    // @ts-expect-error: href is not a button prop
+    action({ href: '/' });
+  });
+});
@@ -0,0 +1,120 @@
+import type React from 'react';
+import { resolveArguments } from './arguments';
+import type { ClsxClassName, ElementFunction } from './types';
+
+/**
+ * Variant names mapped to their options, each option to the classes it adds.
+ * Options named `true` and `false` make a boolean variant.
+ */
+export type VariantDefinitions = Record<string, Record<string, ClsxClassName>>;
+
+type VariantValue<Options> = keyof Options extends 'true' | 'false'
+  ? boolean
+  : keyof Options & string;
+
+/**
+ * The props that select variants, e.g. `{ size?: 'sm' | 'lg' }`.
+ */
+export type VariantProps<Variants extends VariantDefinitions> = {
+  [Name in keyof Variants]?: VariantValue<Variants[Name]>;
+};
+
+/**
+ * Classes added when every listed variant has one of the given values.
+ */
+export type CompoundVariant<Variants extends VariantDefinitions> = {
+  [Name in keyof Variants]?:
+    | VariantValue<Variants[Name]>
+    | VariantValue<Variants[Name]>[];
+} & { className: ClsxClassName };
+
+export type VariantsConfig<Variants extends VariantDefinitions> = {
+  /** Classes every element gets */
+  base?: ClsxClassName;
+  variants?: Variants;
+  compoundVariants?: CompoundVariant<Variants>[];
+  /** Variants used when the prop is not passed */
+  defaultVariants?: VariantProps<Variants>;
+};
+
+/**
+ * Wraps an element function with variant props that map to classes. The
+ * variant props are removed before the props reach the element, and the
+ * `className` prop is still applied after the variant classes.
+ *
+ * @param element - An element function, e.g. `button`
+ * @param config - The base classes, variants, compound variants and defaults
+ * @returns An element function with the same call signature, plus the
+ * variant props
+ *
+ * @example
+ * const action = variants(button, {
+ *   base: 'btn',
+ *   variants: {
+ *     intent: { primary: 'btn-primary', danger: 'btn-danger' },
+ *     size: { sm: 'btn-sm', lg: 'btn-lg' },
+ *     block: { true: 'w-full' },
+ *   },
+ *   compoundVariants: [{ intent: 'danger', size: 'lg', className: 'shadow' }],
+ *   defaultVariants: { intent: 'primary', size: 'sm' },
+ * });
+ *
+ * action({ intent: 'danger', block: true, onClick: remove }, 'Delete');
+ */
+export const variants = <
+  Props,
+  Variants extends VariantDefinitions = Record<never, never>
+>(
+  element: ElementFunction<Props>,
+  config: VariantsConfig<Variants>
+): ElementFunction<Omit<Props, keyof Variants> & VariantProps<Variants>> => {
+  const {
+    base,
+    variants: definitions = {} as Variants,
+    compoundVariants = [],
+    defaultVariants = {},
+  } = config;
+  const names = Object.keys(definitions);
+
+  const matches = (
+    condition: Record<string, unknown>,
+    selected: Record<string, unknown>
+  ) =>
+    Object.entries(condition).every(
+      ([name, value]) =>
+        name === 'className' ||
+        (Array.isArray(value) ? value : [value]).some(
+          (option) => String(option) === String(selected[name])
+        )
+    );
+
+  return (
+    propsOrChildren?: Record<string, unknown> | React.ReactNode,
+    ...rest: React.ReactNode[]
+  ) => {
+    const [props, children] = resolveArguments<Record<string, unknown>>(
+      propsOrChildren,
+      rest
+    );
+
+    const elementProps: Record<string, unknown> = { ...props };
+    const selected: Record<string, unknown> = { ...defaultVariants };
+    for (const name of names) {
+      if (elementProps[name] !== undefined) {
+        selected[name] = elementProps[name];
+      }
+      delete elementProps[name];
+    }
+
+    elementProps.className = [
+      base,
+      names.map((name) => definitions[name][String(selected[name])]),
+      compoundVariants
+        .filter((compound) => matches(compound, selected))
+        .map((compound) => compound.className),
+      props?.className,
+    ];
+
+    return element(elementProps as Props, ...children);
+  };
+};
@@ -0,0 +1,23 @@
+// Elements that can never have children, from the `void` flag of the spec
+// table in `elementSpec.ts`
+
+// <generated-void-elements>
+// Generated from src/elementSpec.ts by `npm run generate:elements`.
+// Do not edit by hand.
+export const VOID_ELEMENTS = [
+  'base',
+  'link',
+  'meta',
+  'hr',
+  'br',
+  'wbr',
+  'area',
+  'img',
+  'track',
+  'embed',
+  'param',
+  'source',
+  'col',
+  'input',
+];
+// </generated-void-elements>